@@ -113,6 +113,9 @@ function setup-build-configs {
             BUILDER_TIMEOUT=$(($"${CONFIG[BUILDER_EXTRA_TIMEOUT]}" * "$BUILDER_TIMEOUT"))
         fi
     fi
+
+    # Lets the coordinator know how long the build may take, so that it does not consider it stalled too early
+    echo "$BUILDER_TIMEOUT" >"$TEMPOUT/$PACKAGE.timeout"
 }
 
 function setup-buildenv {
@@ -15,6 +15,10 @@ case "$1" in
 	shift
 	exec ./auto-database-remove.sh "$@"
 	;;
+"repo-dependencies")
+	shift
+	exec ./repo-dependencies.sh "$@"
+	;;
 *)
 	echo "Invalid argument. Please specify 'build' or 'repo-add'."
 	exit 1
@@ -0,0 +1,50 @@
+BEGIN {
+    OFS="\t"
+}
+BEGINFILE {
+    name=""
+    base=""
+    depends=""
+    provides=""
+    v=0
+}
+/^%NAME%$/ {
+    v=1
+    next
+}
+/^%BASE%$/ {
+    v=2
+    next
+}
+/^%DEPENDS%$/ {
+    v=3
+    next
+}
+/^%PROVIDES%$/ {
+    v=4
+    next
+}
+/^(%.*%)?$/ {
+    v=0
+    next
+}
+v==1 {
+    name=$0
+    v=0
+}
+v==2 {
+    base=$0
+    v=0
+}
+v==3 {
+    # Strip version constraints, e.g. libfoo.so=1-64 or foo>=1.0
+    sub(/[<>=].*/, "")
+    depends=depends (depends == "" ? "" : " ") $0
+}
+v==4 {
+    sub(/[<>=].*/, "")
+    provides=provides (provides == "" ? "" : " ") $0
+}
+ENDFILE {
+    print base, name, depends, provides
+}
@@ -0,0 +1,29 @@
+#!/usr/bin/env bash
+
+set -euo pipefail
+
+# Prints one tab separated line per package in the database: pkgbase, pkgname, depends, provides
+# with the latter two being space separated lists without version constraints
+# repo-dependencies.sh [ARCH] [WEB_ROOT] [REPO_NAME]
+
+if [[ $# -ne 3 ]]; then
+	echo "Usage: $0 <arch> <web root> <repo name>"
+	exit 1
+fi
+
+ARCH="$1"
+WEB_ROOT="$2"
+REPO_NAME="$3"
+REPO_DIR="$WEB_ROOT/$REPO_NAME/$ARCH"
+
+if ! DBFILE="$(realpath "$REPO_DIR/$REPO_NAME.db")" || [ -z "$DBFILE" ] || [[ ! -f "$DBFILE" ]]; then
+	echo "Database $REPO_NAME.db not found in $REPO_DIR" >&2
+	exit 1
+fi
+
+TEMP="$(mktemp -d)"
+trap 'rm -rf "$TEMP"' EXIT
+
+tar -xf "$DBFILE" -C "$TEMP"
+
+find "$TEMP" -maxdepth 2 -name 'desc' -exec awk -f ./parse-dependencies.awk {} +
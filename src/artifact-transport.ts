@@ -0,0 +1,261 @@
+import fs from "fs";
+import path from "path";
+import type { Logger } from "moleculer";
+import { type ConnectConfig, type SFTPWrapper, Client as SshClient } from "ssh2";
+import { type BuildsRedisLogger, SshLogger } from "./logging";
+import { formatBytes } from "./utils";
+
+// Called whenever a file made progress, transports without finer-grained reporting call it once per finished file
+export type UploadProgressCallback = (file: string, transferred: number, total: number) => void;
+
+/**
+ * Moves built packages from a builder to the landing zone of the database node.
+ */
+export abstract class ArtifactTransport {
+    /**
+     * Uploads the given files to the landing zone.
+     * @param dir The local directory containing the files.
+     * @param files The names of the files to upload.
+     * @param progress Receives the progress of the individual files.
+     * @throws Error if any of the files could not be uploaded, or the upload was aborted.
+     */
+    abstract upload(dir: string, files: string[], progress?: UploadProgressCallback): Promise<void>;
+
+    /**
+     * Aborts a running upload, making it reject.
+     */
+    abstract abort(): void;
+}
+
+/**
+ * Uploads files via SFTP, which requires the builder to be able to open outbound SSH connections to the database host.
+ * Files are uploaded in parallel over multiple SFTP channels of the same connection.
+ */
+export class SftpTransport extends ArtifactTransport {
+    private client: SshClient | null = null;
+
+    constructor(
+        private connection: ConnectConfig,
+        private landing_zone: string,
+        private chaoticLogger: Logger,
+        private concurrency = 1,
+    ) {
+        super();
+    }
+
+    async upload(dir: string, files: string[], progress?: UploadProgressCallback): Promise<void> {
+        const sshlogger = new SshLogger();
+        const client = new SshClient();
+        this.client = client;
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const timeout = setTimeout(() => {
+                    reject(new Error("SSH Connection timeout"));
+                }, 30000);
+
+                client
+                    .on("ready", () => {
+                        clearTimeout(timeout);
+                        const queue: string[] = [...files];
+                        // Every channel uploads one file at a time, taking the next one from the shared queue
+                        const channels = Array.from({ length: Math.min(this.concurrency, files.length) }, () =>
+                            this.uploadChannel(client, dir, queue, progress),
+                        );
+                        Promise.all(channels).then(() => resolve(), reject);
+                    })
+                    .on("error", (err) => {
+                        clearTimeout(timeout);
+                        reject(err);
+                    })
+                    .connect({
+                        ...this.connection,
+                        debug: sshlogger.log.bind(sshlogger),
+                        keepaliveInterval: 10000,
+                        readyTimeout: 30000, // Timeout for connection
+                    });
+            });
+        } catch (err) {
+            // This does not get logged to redis
+            this.chaoticLogger.error(sshlogger.dump());
+            this.chaoticLogger.info("End of SSH log.");
+            throw err;
+        } finally {
+            client.end();
+            this.client = null;
+        }
+    }
+
+    abort(): void {
+        this.client?.end();
+    }
+
+    private async uploadChannel(
+        client: SshClient,
+        dir: string,
+        queue: string[],
+        progress?: UploadProgressCallback,
+    ): Promise<void> {
+        const sftp: SFTPWrapper = await new Promise((resolve, reject) => {
+            client.sftp((err, sftp) => (err ? reject(err) : resolve(sftp)));
+        });
+
+        try {
+            while (queue.length > 0) {
+                const file: string = queue.shift()!;
+                const localPath = path.join(dir, file);
+                const remotePath = `${this.landing_zone}/${file}`;
+                await new Promise<void>((resolve, reject) => {
+                    sftp.fastPut(
+                        localPath,
+                        remotePath,
+                        { step: (transferred, _chunk, total) => progress?.(file, transferred, total) },
+                        (err) => {
+                            if (err) reject(err);
+                            else resolve();
+                        },
+                    );
+                });
+            }
+        } finally {
+            sftp.end();
+        }
+    }
+}
+
+/**
+ * Copies files to a landing zone on a filesystem shared with the database host, e.g. via NFS.
+ */
+export class LocalTransport extends ArtifactTransport {
+    private aborted = false;
+
+    constructor(private landing_zone: string) {
+        super();
+    }
+
+    async upload(dir: string, files: string[], progress?: UploadProgressCallback): Promise<void> {
+        this.aborted = false;
+        for (const file of files) {
+            if (this.aborted) throw new Error("Upload aborted");
+            // Copy to a hidden file first, so the database never picks up a partially written package
+            const partial = path.join(this.landing_zone, `.${file}.part`);
+            await fs.promises.copyFile(path.join(dir, file), partial);
+            await fs.promises.rename(partial, path.join(this.landing_zone, file));
+
+            const { size } = await fs.promises.stat(path.join(dir, file));
+            progress?.(file, size, size);
+        }
+    }
+
+    abort(): void {
+        this.aborted = true;
+    }
+}
+
+/**
+ * Uploads files via HTTP PUT to the artifact route of the database node, for builders behind HTTP-only proxies.
+ */
+export class HttpTransport extends ArtifactTransport {
+    private controller: AbortController | null = null;
+
+    constructor(
+        private url: string,
+        private token: string,
+    ) {
+        super();
+    }
+
+    async upload(dir: string, files: string[], progress?: UploadProgressCallback): Promise<void> {
+        const controller = new AbortController();
+        this.controller = controller;
+
+        try {
+            for (const file of files) {
+                const blob: Blob = await fs.openAsBlob(path.join(dir, file));
+                const response = await fetch(`${this.url.replace(/\/+$/, "")}/${encodeURIComponent(file)}`, {
+                    method: "PUT",
+                    headers: {
+                        Authorization: `Bearer ${this.token}`,
+                        "Content-Type": "application/octet-stream",
+                    },
+                    body: blob,
+                    signal: controller.signal,
+                });
+                if (!response.ok) {
+                    throw new Error(`Uploading ${file} failed: ${response.status} ${await response.text()}`);
+                }
+                progress?.(file, blob.size, blob.size);
+            }
+        } finally {
+            this.controller = null;
+        }
+    }
+
+    abort(): void {
+        this.controller?.abort();
+    }
+}
+
+/**
+ * Periodically writes the progress of the files currently being uploaded to the build log.
+ */
+export class UploadProgressReporter {
+    private files = new Map<string, { transferred: number; reported: number; total: number }>();
+    private timer: NodeJS.Timeout | null = null;
+    private last_report: number = Date.now();
+    private readonly started: number = Date.now();
+
+    constructor(
+        private logger: BuildsRedisLogger,
+        private interval = 10000,
+    ) {}
+
+    start(): void {
+        this.timer = setInterval(() => this.report(), this.interval);
+    }
+
+    update: UploadProgressCallback = (file, transferred, total) => {
+        const entry = this.files.get(file);
+        if (entry) entry.transferred = transferred;
+        else this.files.set(file, { transferred, reported: 0, total });
+    };
+
+    /**
+     * Stops reporting and writes a summary of the whole upload.
+     * @param success Whether the upload succeeded, failed uploads only report how far they got.
+     */
+    finish(success: boolean): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+
+        const bytes: number = [...this.files.values()].reduce((sum, entry) => sum + entry.transferred, 0);
+        const seconds: number = Math.max((Date.now() - this.started) / 1000, 0.001);
+        if (!success) {
+            const complete: number = [...this.files.values()].filter(
+                (entry) => entry.transferred === entry.total,
+            ).length;
+            this.logger.log(
+                `Upload failed after ${seconds.toFixed(1)}s, ${complete} files were complete and ${formatBytes(bytes)} transferred.`,
+            );
+            return;
+        }
+        this.logger.log(
+            `Uploaded ${this.files.size} files (${formatBytes(bytes)}) in ${seconds.toFixed(1)}s at ${formatBytes(bytes / seconds)}/s.`,
+        );
+    }
+
+    private report(): void {
+        const now: number = Date.now();
+        const seconds: number = Math.max((now - this.last_report) / 1000, 0.001);
+        this.last_report = now;
+
+        for (const [file, entry] of this.files) {
+            if (entry.reported === entry.total) continue;
+            const rate: number = (entry.transferred - entry.reported) / seconds;
+            entry.reported = entry.transferred;
+            this.logger.log(
+                `Uploading ${file}: ${formatBytes(entry.transferred)} of ${formatBytes(entry.total)} (${Math.floor((entry.transferred / entry.total) * 100)}%) at ${formatBytes(rate)}/s`,
+            );
+        }
+    }
+}
@@ -0,0 +1,72 @@
+import type RedisConnection from "ioredis";
+import type {
+    BuildHistoryEntry,
+    Coordinator_Action_GetHistory_Params,
+    Coordinator_Action_GetHistory_Response,
+} from "./types";
+
+// Streams are trimmed approximately, which is a lot cheaper than trimming to the exact length
+const HISTORY_MAX_LENGTH = 100000;
+const PKGBASE_HISTORY_MAX_LENGTH = 200;
+const PKGBASE_HISTORY_TTL = 60 * 60 * 24 * 180; // 180 days
+// Upper bound of entries inspected per query, so that sparse filters cannot block Redis for too long
+const MAX_SCANNED_ENTRIES = 5000;
+const SCAN_BATCH_SIZE = 500;
+
+/**
+ * Stores finished jobs in Redis streams, one containing all builds and one per pkgbase for fast lookups.
+ */
+export class BuildHistory {
+    constructor(private connection: RedisConnection) {}
+
+    /**
+     * Records a finished job.
+     * @param entry The job to record, the ID is assigned by Redis.
+     */
+    async record(entry: Omit<BuildHistoryEntry, "id">): Promise<void> {
+        const data: string = JSON.stringify(entry);
+        const key = "build-history:" + entry.pkgbase;
+
+        const pipeline = this.connection.pipeline();
+        pipeline.xadd("build-history", "MAXLEN", "~", HISTORY_MAX_LENGTH, "*", "entry", data);
+        pipeline.xadd(key, "MAXLEN", "~", PKGBASE_HISTORY_MAX_LENGTH, "*", "entry", data);
+        pipeline.expire(key, PKGBASE_HISTORY_TTL);
+        await pipeline.exec();
+    }
+
+    /**
+     * Returns the recorded jobs matching the given filters, newest first.
+     * @param filter The filters to apply, as well as the page size and the cursor of the page to fetch.
+     * @returns The matching jobs and the cursor of the next page, if there are more entries.
+     */
+    async query(filter: Coordinator_Action_GetHistory_Params): Promise<Coordinator_Action_GetHistory_Response> {
+        const key: string = filter.pkgbase ? "build-history:" + filter.pkgbase : "build-history";
+        const limit: number = filter.limit ?? 50;
+        const entries: BuildHistoryEntry[] = [];
+        let end: string = filter.before ? "(" + filter.before : "+";
+        let scanned = 0;
+
+        while (scanned < MAX_SCANNED_ENTRIES) {
+            const batch = await this.connection.xrevrange(key, end, "-", "COUNT", SCAN_BATCH_SIZE);
+            if (batch.length === 0) return { entries };
+
+            for (const [id, fields] of batch) {
+                scanned++;
+                const entry: BuildHistoryEntry = { id, ...JSON.parse(fields[1]) };
+                if (
+                    (filter.target_repo === undefined || entry.target_repo === filter.target_repo) &&
+                    (filter.arch === undefined || entry.arch === filter.arch) &&
+                    (filter.status === undefined || entry.status === filter.status) &&
+                    (filter.node === undefined || entry.node === filter.node)
+                ) {
+                    entries.push(entry);
+                }
+                // More entries may follow, so let the caller continue from here
+                if (entries.length === limit || scanned === MAX_SCANNED_ENTRIES) return { entries, next: id };
+            }
+            end = "(" + batch[batch.length - 1][0];
+        }
+
+        return { entries };
+    }
+}
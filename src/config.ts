@@ -0,0 +1,428 @@
+import fs from "fs";
+import { parse as parseYaml } from "yaml";
+import {
+    type ArtifactTransportType,
+    BuildStatus,
+    DEFAULT_RETRY_POLICY,
+    LANDING_ZONE_MOUNT,
+    type PacmanRepo,
+    type RemoteSettings,
+    type RetryPolicy,
+} from "./types";
+import { isNumeric, isValidLabel } from "./utils";
+
+// The services whose settings are only validated by the commands running them
+export type SettingScope = "builder" | "database";
+
+interface SettingDefinition {
+    // Environment variable overriding the value of the config file
+    env?: string;
+    // Whether the environment variable contains inline JSON
+    json?: boolean;
+    default?: unknown;
+    // Whether an explicit null in the config file is kept, instead of falling back to the default
+    nullable?: boolean;
+    // Validates the value and converts it to its final form, calling fail with the offending key otherwise
+    parse: (value: unknown, fail: (reason: string, key?: string) => never) => unknown;
+}
+
+// Only failures may be retried, everything else is either final or handled by the coordinator already
+const RETRYABLE_STATUSES: BuildStatus[] = [
+    BuildStatus.FAILED,
+    BuildStatus.TIMED_OUT,
+    BuildStatus.SOFTWARE_FAILURE,
+    BuildStatus.UPLOAD_FAILED,
+    BuildStatus.DATABASE_FAILED,
+    BuildStatus.STALLED,
+];
+
+const DEFAULT_REPOS: RemoteSettings["repos"] = {
+    "chaotic-aur": {
+        url: "https://gitlab.com/chaotic-aur/pkgbuilds",
+    },
+};
+
+const DEFAULT_TARGET_REPOS: RemoteSettings["target_repos"] = {
+    "chaotic-aur": {
+        extra_repos: [
+            {
+                name: "chaotic-aur",
+                servers: ["https://builds.garudalinux.org/repos/$repo/$arch"],
+            },
+        ],
+        extra_keyrings: ["https://cdn-mirror.chaotic.cx/chaotic-aur/chaotic-keyring.pkg.tar.zst"],
+    },
+};
+
+// All known settings, keyed by their dotted path in the config file
+const SETTINGS: Record<string, SettingDefinition> = {
+    "builder.build_dir_host": { env: "BUILDER_BUILD_DIR_HOST", parse: parseString },
+    "builder.build_dir_manager": { env: "BUILDER_BUILD_DIR_MANAGER", default: "/shared/build", parse: parseString },
+    "builder.ci_code_skip": { env: "CI_CODE_SKIP", default: 123, parse: parseInteger },
+    "builder.class": { env: "BUILDER_CLASS", default: 2, nullable: true, parse: parseBuildClass },
+    "builder.hostname": { env: "BUILDER_HOSTNAME", parse: parseString },
+    "builder.image": {
+        env: "BUILDER_IMAGE",
+        default: "registry.gitlab.com/garuda-linux/tools/chaotic-manager/builder:latest",
+        parse: parseString,
+    },
+    "builder.labels": { env: "BUILDER_LABELS", default: [], parse: parseLabels },
+    "builder.landing_zone": { env: "BUILDER_LANDING_ZONE", parse: parseString },
+    "builder.limits.cpus": { env: "BUILDER_LIMITS_CPUS", parse: parseInteger },
+    "builder.limits.ram": { env: "BUILDER_LIMITS_RAM", parse: parseInteger },
+    "builder.shared_path": { env: "SHARED_PATH", parse: parseString },
+    "builder.slots": {
+        env: "BUILDER_SLOTS",
+        default: 1,
+        parse: (value, fail) => {
+            const slots = parseInteger(value, fail);
+            if (slots < 1) fail("expected at least one build slot");
+            return slots;
+        },
+    },
+    "builder.srcdest_cache_override": { env: "BUILDER_SRCDEST_CACHE_OVERRIDE", parse: parseString },
+    "builder.ssh_key": { env: "BUILDER_SSH_KEY", default: "sshkey", parse: parseString },
+    "builder.timeout": { env: "BUILDER_TIMEOUT", default: 3600, parse: parseInteger },
+    "builder.transport": { env: "BUILDER_TRANSPORT", parse: parseTransport },
+    "builder.upload_concurrency": {
+        env: "BUILDER_UPLOAD_CONCURRENCY",
+        default: 3,
+        parse: (value, fail) => {
+            const concurrency = parseInteger(value, fail);
+            if (concurrency < 1) fail("expected at least one concurrent upload");
+            return concurrency;
+        },
+    },
+    "builder.upload_token": { env: "BUILDER_UPLOAD_TOKEN", parse: parseString },
+    container_engine: {
+        env: "CONTAINER_ENGINE",
+        default: "docker",
+        // Any value used to select podman, which existing deployments may rely on
+        parse: (value) => (value === "docker" ? "docker" : "podman"),
+    },
+    "database.gpg_path": { env: "GPG_PATH", parse: parseString },
+    "database.landing_zone": { env: "LANDING_ZONE_PATH", parse: parseString },
+    "database.landing_zone_advertised": { env: "LANDING_ZONE_ADVERTISED_PATH", parse: parseString },
+    "database.landing_zone_mount": { env: "LANDING_ZONE_MOUNT", default: LANDING_ZONE_MOUNT, parse: parseString },
+    "database.repo_path": { env: "REPO_PATH", parse: parseString },
+    "database.ssh.host": { env: "DATABASE_HOST", parse: parseString },
+    "database.ssh.port": { env: "DATABASE_PORT", parse: parseInteger },
+    "database.ssh.user": { env: "DATABASE_USER", parse: parseString },
+    "database.transport": { env: "DATABASE_TRANSPORT", default: "sftp", parse: parseTransport },
+    "database.upload_token": { env: "DATABASE_UPLOAD_TOKEN", parse: parseString },
+    "database.upload_url": { env: "DATABASE_UPLOAD_URL", parse: parseUrl },
+    logs_url: { env: "LOGS_URL", parse: parseUrl },
+    notifiers: { env: "PACKAGE_REPOS_NOTIFIERS", json: true, default: {}, parse: parseNotifiers },
+    "redis.host": { env: "REDIS_HOST", default: "localhost", parse: parseString },
+    "redis.password": { env: "REDIS_PASSWORD", default: "", parse: parseString },
+    "redis.port": { env: "REDIS_PORT", default: 6379, parse: parseInteger },
+    repos: { env: "PACKAGE_REPOS", json: true, default: DEFAULT_REPOS, parse: parseRepos },
+    target_repos: { env: "PACKAGE_TARGET_REPOS", json: true, default: DEFAULT_TARGET_REPOS, parse: parseTargetRepos },
+    "telegram.bot_token": { env: "TELEGRAM_BOT_TOKEN", parse: parseString },
+    "telegram.chat_id": { env: "TELEGRAM_CHAT_ID", parse: parseString },
+};
+
+/**
+ * Loads the settings from the given config file, falling back to defaults for missing values.
+ * Environment variables take precedence over the config file. Settings of services not in the given scopes fall back
+ * to their defaults if they are invalid, so that e.g. client commands keep working with a broken repository setting.
+ * @param path The path to a YAML or JSON config file, or undefined to only use environment variables.
+ * @param scopes The services the command runs, whose settings are validated.
+ * @returns The validated settings.
+ * @throws Error if the config file cannot be read or a setting is invalid, naming the offending key.
+ */
+export function loadSettings(path: string | undefined, scopes: SettingScope[] = []): RemoteSettings {
+    const file: Map<string, unknown> = path !== undefined ? readConfigFile(path) : new Map();
+    const settings: Record<string, unknown> = {};
+
+    for (const [key, definition] of Object.entries(SETTINGS)) {
+        // Empty environment variables are treated as unset, just like before the config file existed
+        const env: string | undefined = definition.env ? process.env[definition.env] || undefined : undefined;
+        const source: string = env !== undefined ? `environment variable ${definition.env}` : `config file ${path}`;
+        const fail = (reason: string, subkey?: string): never => {
+            throw new Error(`Invalid setting "${subkey ? `${key}.${subkey}` : key}" (${source}): ${reason}`);
+        };
+
+        let value: unknown = env !== undefined ? env : file.get(key);
+        if (env !== undefined && definition.json) {
+            try {
+                value = JSON.parse(env);
+            } catch (err) {
+                fail(`invalid JSON: ${err instanceof Error ? err.message : err}`);
+            }
+        }
+
+        let parsed: unknown = definition.default;
+        if (value === null && definition.nullable) {
+            parsed = null;
+        } else if (value !== undefined && value !== null) {
+            const scope: SettingScope | undefined = getScope(key);
+            if (scope === undefined || scopes.includes(scope)) {
+                parsed = definition.parse(value, fail);
+            } else {
+                try {
+                    parsed = definition.parse(value, fail);
+                } catch {
+                    // Not used by the command, so the default is as good as any
+                }
+            }
+        }
+        // Unset values are still assigned, so every section of the settings exists
+        setPath(settings, key, parsed);
+    }
+
+    return settings as unknown as RemoteSettings;
+}
+
+/**
+ * Determines the service a setting belongs to, settings without one are used by every command.
+ */
+function getScope(key: string): SettingScope | undefined {
+    if (key.startsWith("builder.")) return "builder";
+    if (
+        key.startsWith("database.") ||
+        key.startsWith("telegram.") ||
+        ["logs_url", "notifiers", "repos", "target_repos"].includes(key)
+    ) {
+        return "database";
+    }
+    return undefined;
+}
+
+/**
+ * Ensures that the given settings are set, as they are required by the command being run.
+ * @param settings The loaded settings.
+ * @param keys The dotted paths of the required settings.
+ * @throws Error listing all missing settings, along with their environment variables.
+ */
+export function requireSettings(settings: RemoteSettings, keys: string[]): void {
+    const missing: string[] = keys.filter((key) => getPath(settings, key) === undefined);
+    if (missing.length === 0) return;
+
+    throw new Error(
+        "Missing required settings: " +
+            missing.map((key) => `"${key}"` + (SETTINGS[key]?.env ? ` (or ${SETTINGS[key].env})` : "")).join(", "),
+    );
+}
+
+/**
+ * Reads a YAML or JSON config file, flattening it to the dotted paths of the known settings.
+ */
+function readConfigFile(path: string): Map<string, unknown> {
+    let parsed: unknown;
+    try {
+        // YAML is a superset of JSON, so both formats are handled by the same parser
+        parsed = parseYaml(fs.readFileSync(path, "utf8"));
+    } catch (err) {
+        throw new Error(`Failed to load config file ${path}: ${err instanceof Error ? err.message : err}`, {
+            cause: err,
+        });
+    }
+
+    const out = new Map<string, unknown>();
+    if (parsed === null || parsed === undefined) return out;
+    if (!isObject(parsed)) throw new Error(`Invalid config file ${path}: expected a mapping of settings`);
+
+    const walk = (obj: Record<string, unknown>, prefix: string) => {
+        for (const [name, value] of Object.entries(obj)) {
+            const key = prefix + name;
+            if (key in SETTINGS) {
+                out.set(key, value);
+            } else if (Object.keys(SETTINGS).some((setting) => setting.startsWith(key + "."))) {
+                if (!isObject(value))
+                    throw new Error(`Invalid setting "${key}" (config file ${path}): expected a mapping`);
+                walk(value, key + ".");
+            } else {
+                throw new Error(`Unknown setting "${key}" (config file ${path})`);
+            }
+        }
+    };
+    walk(parsed, "");
+
+    return out;
+}
+
+function parseString(value: unknown, fail: (reason: string) => never): string {
+    if (typeof value !== "string" || value === "") fail("expected a non-empty string");
+    return value as string;
+}
+
+function parseUrl(value: unknown, fail: (reason: string) => never): string {
+    const url = parseString(value, fail);
+    if (!URL.canParse(url)) fail("expected a valid URL");
+    return url;
+}
+
+function parseInteger(value: unknown, fail: (reason: string) => never): number {
+    if (typeof value === "string" && isNumeric(value)) return Number(value);
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) fail("expected a non-negative integer");
+    return value as number;
+}
+
+// Builder nodes can ONLY have numeric build classes, any other value restricts them to packages explicitly assigned to
+// them by name
+function parseBuildClass(value: unknown, fail: (reason: string) => never): number | null {
+    if (typeof value === "number") return parseInteger(value, fail);
+    if (typeof value === "string") return isNumeric(value) ? Number(value) : null;
+    return fail("expected a number or a string");
+}
+
+// Either a list or a comma-separated string, as environment variables cannot contain lists
+function parseLabels(value: unknown, fail: (reason: string, key?: string) => never): string[] {
+    const labels: unknown[] =
+        typeof value === "string" ? value.split(",").map((label) => label.trim()) : (value as unknown[]);
+    if (!Array.isArray(labels)) fail("expected a list of labels");
+    labels.forEach((label, index) => {
+        if (typeof label !== "string" || !isValidLabel(label)) {
+            fail("expected lowercase letters, digits and any of - _ .", String(index));
+        }
+    });
+    return labels as string[];
+}
+
+function parseTransport(value: unknown, fail: (reason: string) => never): ArtifactTransportType {
+    if (value !== "sftp" && value !== "local" && value !== "http") fail('expected one of "sftp", "local" or "http"');
+    return value as ArtifactTransportType;
+}
+
+function parseRepos(value: unknown, fail: (reason: string, key?: string) => never): RemoteSettings["repos"] {
+    if (!isObject(value)) fail("expected a mapping of repository names to their settings");
+    const repos: RemoteSettings["repos"] = {};
+    for (const [name, repo] of Object.entries(value as Record<string, unknown>)) {
+        if (!isObject(repo)) fail("expected a mapping", name);
+        repos[name] = {
+            url: parseString(repo.url, (reason) => fail(reason, `${name}.url`)),
+            share:
+                repo.share !== undefined
+                    ? parsePositiveInteger(repo.share, (reason) => fail(reason, `${name}.share`))
+                    : undefined,
+        };
+    }
+    return repos;
+}
+
+function parseTargetRepos(
+    value: unknown,
+    fail: (reason: string, key?: string) => never,
+): RemoteSettings["target_repos"] {
+    if (!isObject(value)) fail("expected a mapping of target repository names to their settings");
+    const target_repos: RemoteSettings["target_repos"] = {};
+    for (const [name, repo] of Object.entries(value as Record<string, unknown>)) {
+        if (!isObject(repo)) fail("expected a mapping", name);
+        const extra_repos: unknown = repo.extra_repos ?? [];
+        const extra_keyrings: unknown = repo.extra_keyrings ?? [];
+
+        if (!Array.isArray(extra_repos)) fail("expected a list", `${name}.extra_repos`);
+        (extra_repos as unknown[]).forEach((extra, index) => {
+            const key = `${name}.extra_repos.${index}`;
+            if (!isObject(extra)) fail("expected a mapping", key);
+            parseString(extra.name, (reason) => fail(reason, `${key}.name`));
+            if (!Array.isArray(extra.servers) || extra.servers.some((server) => typeof server !== "string")) {
+                fail("expected a list of server URLs", `${key}.servers`);
+            }
+        });
+
+        if (!Array.isArray(extra_keyrings)) fail("expected a list", `${name}.extra_keyrings`);
+        (extra_keyrings as unknown[]).forEach((link, index) => {
+            if (typeof link !== "string" || !URL.canParse(link)) {
+                fail("expected a valid URL", `${name}.extra_keyrings.${index}`);
+            }
+        });
+
+        target_repos[name] = {
+            extra_repos: extra_repos as PacmanRepo[],
+            extra_keyrings: extra_keyrings as string[],
+            retry:
+                repo.retry !== undefined
+                    ? parseRetryPolicy(repo.retry, (reason, key) =>
+                          fail(reason, `${name}.retry${key ? `.${key}` : ""}`),
+                      )
+                    : undefined,
+            share:
+                repo.share !== undefined
+                    ? parsePositiveInteger(repo.share, (reason) => fail(reason, `${name}.share`))
+                    : undefined,
+            max_concurrent:
+                repo.max_concurrent !== undefined
+                    ? parsePositiveInteger(repo.max_concurrent, (reason) => fail(reason, `${name}.max_concurrent`))
+                    : undefined,
+        };
+    }
+    return target_repos;
+}
+
+function parsePositiveInteger(value: unknown, fail: (reason: string) => never): number {
+    const integer: number = parseInteger(value, fail);
+    if (integer < 1) fail("expected a positive integer");
+    return integer;
+}
+
+// Omitted fields fall back to the default policy, statuses are given by their BuildStatus names
+function parseRetryPolicy(value: unknown, fail: (reason: string, key?: string) => never): RetryPolicy {
+    if (!isObject(value)) fail("expected a mapping");
+    const policy = value as Record<string, unknown>;
+    const max_attempts: number =
+        policy.max_attempts !== undefined
+            ? parseInteger(policy.max_attempts, (reason) => fail(reason, "max_attempts"))
+            : DEFAULT_RETRY_POLICY.max_attempts;
+    if (max_attempts < 1) fail("expected at least one attempt", "max_attempts");
+
+    let statuses: BuildStatus[] = DEFAULT_RETRY_POLICY.statuses;
+    if (policy.statuses !== undefined) {
+        if (!Array.isArray(policy.statuses)) fail("expected a list of build statuses", "statuses");
+        statuses = (policy.statuses as unknown[]).map((name, index) => {
+            const status: BuildStatus | undefined =
+                typeof name === "string" ? BuildStatus[name as keyof typeof BuildStatus] : undefined;
+            if (status === undefined || !RETRYABLE_STATUSES.includes(status)) {
+                fail(
+                    `expected one of ${RETRYABLE_STATUSES.map((retryable) => BuildStatus[retryable]).join(", ")}`,
+                    `statuses.${index}`,
+                );
+            }
+            return status as BuildStatus;
+        });
+    }
+
+    return {
+        max_attempts,
+        backoff:
+            policy.backoff !== undefined
+                ? parseInteger(policy.backoff, (reason) => fail(reason, "backoff"))
+                : DEFAULT_RETRY_POLICY.backoff,
+        statuses,
+    };
+}
+
+function parseNotifiers(value: unknown, fail: (reason: string, key?: string) => never): RemoteSettings["notifiers"] {
+    if (!isObject(value)) fail("expected a mapping of repository names to their notifier settings");
+    const notifiers: RemoteSettings["notifiers"] = {};
+    for (const [name, notifier] of Object.entries(value as Record<string, unknown>)) {
+        if (!isObject(notifier)) fail("expected a mapping", name);
+        const field = (key: string) => parseString(notifier[key], (reason) => fail(reason, `${name}.${key}`));
+        notifiers[name] = { check_name: field("check_name"), id: field("id"), token: field("token") };
+    }
+    return notifiers;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getPath(obj: object, key: string): unknown {
+    let current: unknown = obj;
+    for (const part of key.split(".")) {
+        if (!isObject(current)) return undefined;
+        current = current[part];
+    }
+    return current;
+}
+
+function setPath(obj: Record<string, unknown>, key: string, value: unknown): void {
+    const parts: string[] = key.split(".");
+    let current: Record<string, unknown> = obj;
+    for (const part of parts.slice(0, -1)) {
+        if (!isObject(current[part])) current[part] = {};
+        current = current[part] as Record<string, unknown>;
+    }
+    current[parts[parts.length - 1]] = value;
+}
@@ -5,6 +5,7 @@ import type Dockerode from "dockerode";
 import Docker, { HostConfig, type Container } from "dockerode";
 import type { Logger } from "moleculer";
 import { type ContainerCreateMountOption, type LibPod, LibpodDockerode } from "./libpod-dockerode";
+import type { ContainerUsage } from "./types";
 
 export abstract class ContainerManager {
     protected abstract docker: Dockerode;
@@ -135,6 +136,25 @@ export abstract class ContainerManager {
         await this.docker.getContainer(container.id).remove({ force: true });
     }
 
+    /**
+     * Samples the resource usage of a running container. The page cache is not counted as used memory, as the kernel
+     * reclaims it when needed.
+     * @param container The container to sample.
+     * @returns The CPU usage in percent of a single core and the memory usage in MiB.
+     */
+    async getUsage(container: Docker.Container): Promise<ContainerUsage> {
+        const stats: Dockerode.ContainerStats = await container.stats({ stream: false });
+        const cpu_delta: number = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+        const system_delta: number = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
+        const cpus: number = stats.cpu_stats.online_cpus || stats.cpu_stats.cpu_usage.percpu_usage?.length || 1;
+        const cache: number = stats.memory_stats.stats?.inactive_file ?? stats.memory_stats.stats?.cache ?? 0;
+
+        return {
+            cpu: system_delta > 0 && cpu_delta > 0 ? Math.round((cpu_delta / system_delta) * cpus * 100) : 0,
+            memory: Math.round(Math.max(0, (stats.memory_stats.usage ?? 0) - cache) / 1024 / 1024),
+        };
+    }
+
     async scheduledPull(imagename: string | null) {
         await this.pull_mutex.acquire();
         if (this.pull_schedule && this.pull_schedule_image !== imagename) {
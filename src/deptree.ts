@@ -0,0 +1,213 @@
+import type { LabelSelector, ResourceRequirements } from "./types";
+import { isValidLabel, isValidPkgbase } from "./utils";
+
+export interface DeptreeEntry {
+    dependencies: string[];
+    label_selector?: LabelSelector;
+    pkgnames: string[];
+    requirements?: ResourceRequirements;
+}
+
+export type Deptree = Record<string, DeptreeEntry>;
+
+// Keys a pkgbase object of the JSON deptree format may contain, all of them are lists of package names
+const JSON_DEPTREE_KEYS = ["pkgnames", "dependencies", "makedepends", "checkdepends", "provides"] as const;
+// Keys of the optional requirements object of a pkgbase, all of them are positive integers
+const JSON_REQUIREMENT_KEYS = ["cpus", "disk", "ram"] as const;
+// Keys of the optional labels object of a pkgbase, all of them are lists of builder labels
+const JSON_LABEL_KEYS = ["include", "exclude"] as const;
+
+/**
+ * Parses a dependency tree, automatically detecting whether the JSON or the legacy format is used.
+ *
+ * Legacy format: `pkgbase:pkgname1[,pkgname2,...]:dep1[,dep2,...];...`
+ *
+ * JSON format: `{ "pkgbase": { "pkgnames": [], "dependencies": [], "makedepends": [], "checkdepends": [], "provides": [] } }`,
+ * with only `pkgnames` being required. A pkgbase may additionally declare the resources it needs to be built as
+ * `"requirements": { "cpus": 8, "ram": 32768, "disk": 102400 }`, with RAM and disk space in MiB, as well as the labels
+ * its builder needs to have or must not have as `"labels": { "include": ["ccache"], "exclude": ["hpc"] }`.
+ * @param input The raw dependency tree.
+ * @returns The parsed dependency tree, mapping pkgbases to their pkgnames and dependencies.
+ * @throws Error if the dependency tree is malformed, pointing at the offending line.
+ */
+export function parseDeptree(input: string): Deptree {
+    if (input.trimStart().startsWith("{")) return parseJsonDeptree(input);
+    return parseLegacyDeptree(input);
+}
+
+function parseLegacyDeptree(input: string): Deptree {
+    const deptree: Deptree = {};
+    let offset = 0;
+
+    input.split(";").forEach((entry: string, index: number) => {
+        const position = offset + (entry.length - entry.trimStart().length);
+        offset += entry.length + 1;
+
+        const trimmed = entry.trim();
+        if (trimmed === "") return;
+
+        const fail = (reason: string): never => {
+            throw new Error(`Invalid deptree entry ${index + 1} (line ${lineOf(input, position)}): ${reason}`);
+        };
+
+        const fields = trimmed.split(":");
+        if (fields.length !== 3) {
+            fail(`expected "pkgbase:pkgname1,pkgname2:dep1,dep2", got "${trimmed}"`);
+        }
+
+        const [pkgbase, pkgnames, deps] = fields;
+        if (!isValidPkgbase(pkgbase)) fail(`invalid pkgbase "${pkgbase}"`);
+
+        const entryData: DeptreeEntry = {
+            dependencies: splitList(deps),
+            pkgnames: splitList(pkgnames),
+        };
+        if (entryData.pkgnames.length === 0) fail(`no pkgnames given for ${pkgbase}`);
+
+        deptree[pkgbase] = entryData;
+    });
+
+    return deptree;
+}
+
+function parseJsonDeptree(input: string): Deptree {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(input);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const match = /position (\d+)/.exec(message);
+        const location = match ? ` (line ${lineOf(input, Number(match[1]))})` : "";
+        throw new Error(`Invalid JSON deptree${location}: ${message}`, { cause: err });
+    }
+
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        throw new Error("Invalid JSON deptree: expected an object mapping pkgbases to their metadata");
+    }
+
+    const deptree: Deptree = {};
+    for (const [pkgbase, value] of Object.entries(parsed)) {
+        const pkgbasePosition = findKey(input, pkgbase, 0);
+        const fail = (key: string | undefined, reason: string): never => {
+            const position = key === undefined ? pkgbasePosition : findKey(input, key, pkgbasePosition);
+            const path = key === undefined ? pkgbase : `${pkgbase}.${key}`;
+            throw new Error(`Invalid JSON deptree at "${path}" (line ${lineOf(input, position)}): ${reason}`);
+        };
+
+        if (!isValidPkgbase(pkgbase)) fail(undefined, "invalid pkgbase");
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            fail(undefined, "expected an object");
+        }
+
+        const lists: Partial<Record<(typeof JSON_DEPTREE_KEYS)[number], string[]>> = {};
+        let requirements: ResourceRequirements | undefined;
+        let label_selector: LabelSelector | undefined;
+        for (const [key, list] of Object.entries(value)) {
+            if (key === "requirements") {
+                requirements = parseRequirements(list, (reason) => fail(key, reason));
+                continue;
+            }
+            if (key === "labels") {
+                label_selector = parseLabels(list, (reason) => fail(key, reason));
+                continue;
+            }
+            if (!(JSON_DEPTREE_KEYS as readonly string[]).includes(key)) {
+                fail(
+                    key,
+                    `unknown key, expected one of ${[...JSON_DEPTREE_KEYS, "requirements", "labels"].join(", ")}`,
+                );
+            }
+            if (!Array.isArray(list) || list.some((item) => typeof item !== "string" || item === "")) {
+                fail(key, "expected a list of non-empty strings");
+            }
+            lists[key as (typeof JSON_DEPTREE_KEYS)[number]] = list as string[];
+        }
+
+        if (!lists.pkgnames || lists.pkgnames.length === 0) fail("pkgnames", "at least one pkgname is required");
+
+        deptree[pkgbase] = {
+            dependencies: [
+                ...(lists.dependencies ?? []),
+                ...(lists.makedepends ?? []),
+                ...(lists.checkdepends ?? []),
+            ].map(stripVersion),
+            // Provided names resolve to the pkgbase just like regular pkgnames do
+            pkgnames: [...lists.pkgnames!, ...(lists.provides ?? []).map(stripVersion)],
+            requirements,
+            label_selector,
+        };
+    }
+
+    return deptree;
+}
+
+/**
+ * Validates the resource requirements of a pkgbase in the JSON deptree format.
+ */
+function parseRequirements(value: unknown, fail: (reason: string) => never): ResourceRequirements {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) fail("expected an object");
+
+    const requirements: ResourceRequirements = {};
+    for (const [key, amount] of Object.entries(value as object)) {
+        if (!(JSON_REQUIREMENT_KEYS as readonly string[]).includes(key)) {
+            fail(`unknown requirement "${key}", expected one of ${JSON_REQUIREMENT_KEYS.join(", ")}`);
+        }
+        if (!Number.isInteger(amount) || amount < 1) fail(`expected "${key}" to be a positive integer`);
+        requirements[key as (typeof JSON_REQUIREMENT_KEYS)[number]] = amount;
+    }
+    return requirements;
+}
+
+/**
+ * Validates the label selector of a pkgbase in the JSON deptree format.
+ */
+function parseLabels(value: unknown, fail: (reason: string) => never): LabelSelector {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) fail("expected an object");
+
+    const selector: LabelSelector = {};
+    for (const [key, labels] of Object.entries(value as object)) {
+        if (!(JSON_LABEL_KEYS as readonly string[]).includes(key)) {
+            fail(`unknown key "${key}", expected one of ${JSON_LABEL_KEYS.join(", ")}`);
+        }
+        if (!Array.isArray(labels) || labels.some((label) => typeof label !== "string" || !isValidLabel(label))) {
+            fail(`expected "${key}" to be a list of labels`);
+        }
+        selector[key as (typeof JSON_LABEL_KEYS)[number]] = labels;
+    }
+    return selector;
+}
+
+/**
+ * Splits a comma-separated list, ignoring empty items.
+ */
+function splitList(list: string): string[] {
+    return list
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item !== "");
+}
+
+/**
+ * Strips version constraints like ">=1.0" or "=2" from a package name.
+ */
+function stripVersion(name: string): string {
+    return name.split(/[<>=]/)[0];
+}
+
+/**
+ * Returns the position of the given object key in a JSON document, starting the search at the given position.
+ * Falls back to the start position if the key cannot be found.
+ */
+function findKey(input: string, key: string, from: number): number {
+    const pattern = new RegExp(JSON.stringify(key).replace(/[.*+?^${}()|[\]\\]/g, "\\$&") + "\\s*:", "g");
+    pattern.lastIndex = from;
+    const match = pattern.exec(input);
+    return match ? match.index : from;
+}
+
+/**
+ * Returns the 1-based line number of the given position in a string.
+ */
+function lineOf(input: string, position: number): number {
+    return input.substring(0, position).split("\n").length;
+}
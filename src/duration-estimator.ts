@@ -0,0 +1,85 @@
+import type RedisConnection from "ioredis";
+
+// Weight of the latest build in the moving averages, higher values adapt faster but are more prone to outliers
+const SMOOTHING = 0.3;
+
+/**
+ * Learns how long packages take to build and how fast the builder nodes are from the durations of successful builds.
+ * Durations are normalized to a node with a speed factor of 1, while the speed factor of a node is the ratio of its
+ * build times to the normalized ones, so faster nodes have lower factors. Both are exponentially weighted moving
+ * averages, stored in Redis hashes to survive restarts of the coordinator.
+ */
+export class DurationEstimator {
+    private durations = new Map<string, number>();
+    // Sum of all durations, to estimate packages that were never built
+    private total_duration = 0;
+    private speed_factors = new Map<string, number>();
+
+    constructor(private connection: RedisConnection) {}
+
+    /**
+     * Loads the learned durations and speed factors from Redis.
+     */
+    async load(): Promise<void> {
+        const [durations, speed_factors] = await Promise.all([
+            this.connection.hgetall("duration-estimates"),
+            this.connection.hgetall("node-speed-factors"),
+        ]);
+        for (const [pkgbase, duration] of Object.entries(durations)) this.setDuration(pkgbase, Number(duration));
+        for (const [node, factor] of Object.entries(speed_factors)) this.speed_factors.set(node, Number(factor));
+    }
+
+    /**
+     * Learns from a successful build.
+     * @param pkgbase The pkgbase that was built.
+     * @param node The pure name of the node that built it.
+     * @param duration The duration of the build in milliseconds.
+     */
+    async record(pkgbase: string, node: string, duration: number): Promise<void> {
+        const previous: number | undefined = this.durations.get(pkgbase);
+        let factor: number = this.getSpeedFactor(node);
+
+        // Only a known duration tells how much faster or slower than expected the node was
+        if (previous !== undefined) {
+            factor = average(factor, duration / previous);
+            this.speed_factors.set(node, factor);
+        }
+        const normalized: number = duration / factor;
+        this.setDuration(pkgbase, previous !== undefined ? average(previous, normalized) : normalized);
+
+        const pipeline = this.connection.pipeline();
+        pipeline.hset("duration-estimates", pkgbase, this.durations.get(pkgbase)!);
+        pipeline.hset("node-speed-factors", node, factor);
+        await pipeline.exec();
+    }
+
+    /**
+     * Estimates the duration of a build. Packages that were never built are assumed to take as long as the average one.
+     * @param pkgbase The pkgbase to build.
+     * @param node The pure name of the node building it, omit to get the normalized duration.
+     * @returns The estimated duration in milliseconds, or undefined if no build was recorded yet.
+     */
+    estimate(pkgbase: string, node?: string): number | undefined {
+        let duration: number | undefined = this.durations.get(pkgbase);
+        if (duration === undefined && this.durations.size > 0) duration = this.total_duration / this.durations.size;
+        if (duration === undefined || node === undefined) return duration;
+        return duration * this.getSpeedFactor(node);
+    }
+
+    /**
+     * Returns the speed factor of a node, unknown nodes are assumed to be of average speed.
+     * @param node The pure name of the node.
+     */
+    getSpeedFactor(node: string): number {
+        return this.speed_factors.get(node) ?? 1;
+    }
+
+    private setDuration(pkgbase: string, duration: number): void {
+        this.total_duration += duration - (this.durations.get(pkgbase) ?? 0);
+        this.durations.set(pkgbase, duration);
+    }
+}
+
+function average(previous: number, latest: number): number {
+    return previous + SMOOTHING * (latest - previous);
+}
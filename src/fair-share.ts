@@ -0,0 +1,42 @@
+/**
+ * Shares the build slots between tenants of the queue, e.g. source repositories, according to their weights using
+ * stride scheduling. Every tenant has a pass, which advances by the inverse of its share whenever one of its jobs is
+ * started, and tenants with a lower pass go first. Tenants with a share of 2 thus get twice as many jobs started as
+ * tenants with a share of 1, taking turns with them while both have jobs queued.
+ */
+export class FairShare {
+    private passes = new Map<string, number>();
+
+    constructor(private getShare: (tenant: string) => number) {}
+
+    /**
+     * Forgets the tenants without queued jobs and lets the ones that got new jobs queued start at the pass of the least
+     * advanced tenant, so that tenants cannot save up turns while they have nothing to build.
+     * @param tenants The tenants having jobs in the queue.
+     */
+    update(tenants: Set<string>): void {
+        for (const tenant of this.passes.keys()) {
+            if (!tenants.has(tenant)) this.passes.delete(tenant);
+        }
+        const start: number = this.passes.size > 0 ? Math.min(...this.passes.values()) : 0;
+        for (const tenant of tenants) {
+            if (!this.passes.has(tenant)) this.passes.set(tenant, start);
+        }
+    }
+
+    /**
+     * Accounts for a job of the tenant being started.
+     * @param tenant The tenant of the job.
+     */
+    charge(tenant: string): void {
+        this.passes.set(tenant, this.getPass(tenant) + 1 / this.getShare(tenant));
+    }
+
+    /**
+     * Returns the pass of a tenant, tenants with a lower pass are next in turn.
+     * @param tenant The tenant to look up.
+     */
+    getPass(tenant: string): number {
+        return this.passes.get(tenant) ?? 0;
+    }
+}
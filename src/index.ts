@@ -2,8 +2,17 @@ import fs from "fs";
 import commandLineArgs, { CommandLineOptions } from "command-line-args";
 import IORedis from "ioredis";
 import { ServiceBroker } from "moleculer";
+import { loadSettings, requireSettings, type SettingScope } from "./config";
 import { RedisConnectionManager } from "./redis-connection-manager";
-import { scheduleAutoRepoRemove, schedulePackages } from "./scheduler";
+import { printQueue, tailLog } from "./inspector";
+import {
+    cancelJobs,
+    scheduleAutoRepoRemove,
+    schedulePackages,
+    scheduleRebuildDependents,
+    setDrained,
+    setPaused,
+} from "./scheduler";
 import { BuilderService } from "./services/builder.service";
 import CoordinatorService from "./services/coordinator.service";
 import { DatabaseService } from "./services/database.service";
@@ -11,8 +20,8 @@ import { MetricsService } from "./services/metrics.service";
 import { enableMetrics, MoleculerConfigCommon, MoleculerConfigLog } from "./services/moleculer.config";
 import { NotifierService } from "./services/notifier.service";
 import { WebService } from "./services/web.service";
-import { generateNodeId, isNumeric } from "./utils";
-import { current_version } from "./types";
+import { generateNodeId, isNumeric, isValidPkgbase } from "./utils";
+import { current_version, type RemoteSettings } from "./types";
 
 if (!process.env.NODE_ENV) process.env.NODE_ENV = "production";
 
@@ -25,35 +34,56 @@ const mainDefinitions = [
     { name: "commit", type: String },
     { name: "deptree", type: String },
     { name: "arch-mirror", type: String },
+    { name: "reason", type: String },
+    { name: "json", type: Boolean },
+    { name: "repo", type: String },
+    { name: "status", type: String },
+    { name: "dry-run", type: Boolean },
+    { name: "priority", type: Number },
+    { name: "labels", type: String },
+    { name: "no-follow", type: Boolean },
+    { name: "since-line", type: Number },
+    { name: "config", type: String },
 ];
 const mainOptions: CommandLineOptions = commandLineArgs(mainDefinitions, {
     stopAtFirstUnknown: true,
 });
 
-const redisHost = process.env.REDIS_HOST || "localhost";
-const redisPort = Number(process.env.REDIS_PORT) || 6379;
-const redisPassword = process.env.REDIS_PASSWORD || "";
-
 async function main(): Promise<void> {
-    const connection = new IORedis(redisPort, redisHost, {
+    // The broker does not exist yet, so errors go to stderr directly
+    const config_path: string | undefined = mainOptions.config || process.env.CONFIG_FILE || undefined;
+    let settings: RemoteSettings;
+    try {
+        // Client commands do not run any service, so they only need valid Redis settings
+        const scopes: SettingScope[] =
+            mainOptions.command === "builder" || mainOptions.command === "database" ? [mainOptions.command] : [];
+        settings = loadSettings(config_path, scopes);
+    } catch (err) {
+        process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+        return process.exit(1);
+    }
+
+    const connection = new IORedis(settings.redis.port, settings.redis.host, {
         lazyConnect: true,
         maxRetriesPerRequest: null,
-        password: redisPassword,
+        password: settings.redis.password,
     });
     const redis_connection_manager = new RedisConnectionManager(connection);
 
     // Assign random nodeIDs to prevent a nodeID conflict, which is a fatal error for Moleculer
-    const nodeID = generateNodeId(mainOptions.command);
+    const nodeID = generateNodeId(mainOptions.command, settings.builder.hostname);
 
     const broker = new ServiceBroker({
-        logger: MoleculerConfigLog(process.env.NODE_ENV!),
+        // Machine-readable output must not be interleaved with log lines
+        logger: mainOptions.json || mainOptions.command === "logs" ? false : MoleculerConfigLog(process.env.NODE_ENV!),
         metadata: {
             // Nodes can ONLY have number build_class values. The string version is exclusively for packages.
-            build_class: process.env.BUILDER_CLASS
-                ? isNumeric(process.env.BUILDER_CLASS)
-                    ? Number(process.env.BUILDER_CLASS)
-                    : null
-                : 2,
+            build_class: settings.builder.class,
+            // Number of jobs the coordinator may assign to this node at the same time
+            slots: settings.builder.slots,
+            // Seconds a build may take, the coordinator derives the deadline of jobs from it
+            timeout: settings.builder.timeout,
+            labels: settings.builder.labels,
             // This value is used to isolate builder nodes that are on a different version of the internal API than the coordinator.
             version: current_version,
         },
@@ -76,7 +106,7 @@ async function main(): Promise<void> {
 
     if (broker.metadata.build_class === null)
         chaoticLogger.warn(
-            "BUILDER_CLASS is set to a non-numeric value. This builder will only build packages specificially assigned to it.",
+            "The builder class (builder.class or BUILDER_CLASS) is set to a non-numeric value. This builder will only build packages specificially assigned to it.",
         );
 
     switch (mainOptions.command) {
@@ -85,13 +115,23 @@ async function main(): Promise<void> {
                 broker.logger.fatal("No package names specified.");
                 process.exit(1);
             }
+            if (mainOptions.priority !== undefined && !Number.isInteger(mainOptions.priority)) {
+                broker.logger.fatal("Priority must be an integer.");
+                process.exit(1);
+            }
 
             // This is a workaround for too many arguments causing the command line argument not to be executed in the
-            // CI pipeline (mainly important for bigger repos).
+            // CI pipeline (mainly important for bigger repos). The JSON format takes precedence over the legacy one.
             let deptree: string | undefined;
             const buildsDir: string | undefined = process.env.CI_BUILDS_DIR || process.env.GITHUB_WORKSPACE;
-            if (buildsDir !== undefined && fs.existsSync(buildsDir + "/.ci/deptree.txt")) {
-                deptree = fs.readFileSync(buildsDir + "/.ci/deptree.txt", {
+            const deptreeFile: string | undefined =
+                buildsDir !== undefined
+                    ? [buildsDir + "/.ci/deptree.json", buildsDir + "/.ci/deptree.txt"].find((file) =>
+                          fs.existsSync(file),
+                      )
+                    : undefined;
+            if (deptreeFile !== undefined) {
+                deptree = fs.readFileSync(deptreeFile, {
                     encoding: "utf8",
                     flag: "r",
                 });
@@ -100,16 +140,26 @@ async function main(): Promise<void> {
             }
 
             await broker.start();
-            await schedulePackages(
-                broker,
-                mainOptions.arch || "x86_64",
-                mainOptions["target-repo"] || "chaotic-aur",
-                mainOptions["source-repo"] || "chaotic-aur",
-                mainOptions._unknown,
-                mainOptions.commit,
-                deptree ? deptree : mainOptions.deptree,
-                mainOptions["arch-mirror"] || undefined,
-            );
+            try {
+                await schedulePackages(
+                    broker,
+                    mainOptions.arch || "x86_64",
+                    mainOptions["target-repo"] || "chaotic-aur",
+                    mainOptions["source-repo"] || "chaotic-aur",
+                    mainOptions._unknown,
+                    mainOptions.commit,
+                    deptree ? deptree : mainOptions.deptree,
+                    mainOptions["arch-mirror"] || undefined,
+                    mainOptions["dry-run"] || false,
+                    mainOptions.priority,
+                    mainOptions.labels,
+                );
+            } catch (err) {
+                broker.logger.fatal(err instanceof Error ? err.message : err);
+                await broker.stop();
+                redis_connection_manager.shutdown();
+                process.exit(1);
+            }
             await broker.stop();
             redis_connection_manager.shutdown();
             return;
@@ -130,41 +180,212 @@ async function main(): Promise<void> {
             connection.quit();
             break;
         }
+        case "rebuild-dependents": {
+            if (typeof mainOptions._unknown === "undefined" || mainOptions._unknown.length !== 1) {
+                broker.logger.fatal("Exactly one pkgname must be specified.");
+                process.exit(1);
+            }
+            if (mainOptions.priority !== undefined && !Number.isInteger(mainOptions.priority)) {
+                broker.logger.fatal("Priority must be an integer.");
+                process.exit(1);
+            }
+            await broker.start();
+            try {
+                await scheduleRebuildDependents(
+                    broker,
+                    mainOptions.arch || "x86_64",
+                    mainOptions["target-repo"] || "chaotic-aur",
+                    mainOptions["source-repo"] || "chaotic-aur",
+                    mainOptions._unknown[0],
+                    mainOptions.commit,
+                    mainOptions["arch-mirror"] || undefined,
+                    mainOptions.priority,
+                );
+            } catch (err) {
+                broker.logger.fatal(err instanceof Error ? err.message : err);
+                await broker.stop();
+                redis_connection_manager.shutdown();
+                process.exit(1);
+            }
+            await broker.stop();
+            redis_connection_manager.shutdown();
+            return;
+        }
+        case "cancel": {
+            if (typeof mainOptions._unknown === "undefined" || mainOptions._unknown.length < 1) {
+                broker.logger.fatal("No job IDs or patterns specified.");
+                process.exit(1);
+            }
+            await broker.start();
+            try {
+                await cancelJobs(broker, mainOptions._unknown, mainOptions.reason);
+            } catch (err) {
+                chaoticLogger.error(err instanceof Error ? err.message : err);
+                process.exitCode = 1;
+            }
+            await broker.stop();
+            redis_connection_manager.shutdown();
+            return;
+        }
+        case "drain":
+        case "undrain": {
+            if (typeof mainOptions._unknown === "undefined" || mainOptions._unknown.length !== 1) {
+                broker.logger.fatal("Exactly one node must be specified.");
+                process.exit(1);
+            }
+            await broker.start();
+            try {
+                await setDrained(broker, mainOptions._unknown[0], mainOptions.command === "drain");
+            } catch (err) {
+                broker.logger.fatal(err instanceof Error ? err.message : err);
+                await broker.stop();
+                redis_connection_manager.shutdown();
+                process.exit(1);
+            }
+            await broker.stop();
+            redis_connection_manager.shutdown();
+            return;
+        }
+        case "pause":
+        case "resume": {
+            if (!mainOptions.arch && !mainOptions["source-repo"] && !mainOptions["target-repo"]) {
+                broker.logger.fatal("No target repository, source repository or architecture specified.");
+                process.exit(1);
+            }
+            await broker.start();
+            try {
+                await setPaused(
+                    broker,
+                    {
+                        arch: mainOptions.arch,
+                        source_repo: mainOptions["source-repo"],
+                        target_repo: mainOptions["target-repo"],
+                    },
+                    mainOptions.command === "pause",
+                );
+            } catch (err) {
+                broker.logger.fatal(err instanceof Error ? err.message : err);
+                await broker.stop();
+                redis_connection_manager.shutdown();
+                process.exit(1);
+            }
+            await broker.stop();
+            redis_connection_manager.shutdown();
+            return;
+        }
+        case "queue": {
+            // The broker logger is disabled for JSON output, so errors go to stderr directly
+            if (mainOptions.status && !["active", "paused", "queued"].includes(mainOptions.status)) {
+                process.stderr.write("Invalid status filter. Valid values are 'active', 'paused' and 'queued'.\n");
+                process.exit(1);
+            }
+            await broker.start();
+            try {
+                await printQueue(broker, {
+                    arch: mainOptions.arch,
+                    json: mainOptions.json || false,
+                    repo: mainOptions.repo,
+                    status: mainOptions.status,
+                });
+            } catch (err) {
+                process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+                process.exitCode = 1;
+            }
+            await broker.stop();
+            redis_connection_manager.shutdown();
+            return;
+        }
+        case "logs": {
+            // The broker logger is disabled to keep the output clean, so errors go to stderr directly
+            const [pkgbase, timestamp] = mainOptions._unknown ?? [];
+            const since_line: number = mainOptions["since-line"] ?? 1;
+            if (!pkgbase || !isValidPkgbase(pkgbase) || (timestamp !== undefined && !isNumeric(timestamp))) {
+                process.stderr.write("Usage: logs [--no-follow] [--since-line <line>] <pkgbase> [timestamp]\n");
+                process.exit(1);
+            }
+            if (!Number.isInteger(since_line) || since_line < 1) {
+                process.stderr.write("The line to start at must be a positive integer.\n");
+                process.exit(1);
+            }
+            await broker.start();
+            try {
+                await tailLog(
+                    broker,
+                    redis_connection_manager,
+                    pkgbase,
+                    timestamp !== undefined ? Number(timestamp) : undefined,
+                    {
+                        follow: !mainOptions["no-follow"],
+                        since_line,
+                    },
+                );
+            } catch (err) {
+                process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+                await broker.stop();
+                redis_connection_manager.shutdown();
+                process.exit(1);
+            }
+            await broker.stop();
+            redis_connection_manager.shutdown();
+            return;
+        }
         case "builder": {
-            if (!process.env.SHARED_PATH || !process.env.BUILDER_HOSTNAME) {
-                broker.logger.fatal("Config variables incomplete.");
+            try {
+                requireSettings(settings, ["builder.shared_path", "builder.hostname"]);
+            } catch (err) {
+                broker.logger.fatal(err instanceof Error ? err.message : err);
                 return process.exit(1);
             }
 
             chaoticLogger.info("Starting builder instance...");
 
-            broker.createService(new BuilderService(broker, redis_connection_manager, process.env.SHARED_PATH));
+            broker.createService(new BuilderService(broker, redis_connection_manager, settings));
             await broker.start();
             break;
         }
         case "database": {
-            if (
-                !process.env.LANDING_ZONE_PATH ||
-                !process.env.REPO_PATH ||
-                !process.env.GPG_PATH ||
-                !process.env.DATABASE_HOST ||
-                !process.env.DATABASE_PORT ||
-                !process.env.DATABASE_USER
-            ) {
-                broker.logger.fatal("Config variables incomplete.");
+            try {
+                requireSettings(settings, [
+                    "database.landing_zone",
+                    "database.repo_path",
+                    "database.gpg_path",
+                    "database.ssh.host",
+                    "database.ssh.port",
+                    "database.ssh.user",
+                    ...(settings.database.transport === "http" ? ["database.upload_token", "database.upload_url"] : []),
+                ]);
+            } catch (err) {
+                broker.logger.fatal(err instanceof Error ? err.message : err);
                 return process.exit(1);
             }
             chaoticLogger.info("Starting database instance...");
 
             broker.options.nodeID = "database";
 
-            broker.createService(new DatabaseService(broker, redis_connection_manager));
-            broker.createService(new CoordinatorService(broker, redis_connection_manager));
-            broker.createService(new NotifierService(broker));
-            broker.createService(new WebService(broker, Number(mainOptions["web-port"]), redis_connection_manager));
+            broker.createService(new DatabaseService(broker, redis_connection_manager, settings));
+            broker.createService(new CoordinatorService(broker, redis_connection_manager, settings, config_path));
+            broker.createService(new NotifierService(broker, settings));
+            broker.createService(
+                new WebService(
+                    broker,
+                    Number(mainOptions["web-port"]),
+                    redis_connection_manager,
+                    settings.database.upload_token
+                        ? { dir: settings.database.landing_zone_mount, token: settings.database.upload_token }
+                        : undefined,
+                ),
+            );
             broker.createService(new MetricsService(broker));
 
             await broker.start();
+
+            // Allows picking up repository changes from the config file without canceling running builds
+            process.on("SIGHUP", () => {
+                chaoticLogger.info("Received SIGHUP, reloading repositories...");
+                broker.call("coordinator.reloadRepos").catch((err) => {
+                    chaoticLogger.error("Failed to reload repositories:", err instanceof Error ? err.message : err);
+                });
+            });
             break;
         }
         case "web": {
@@ -0,0 +1,165 @@
+import type { ServiceBroker } from "moleculer";
+import { getDefaultTimestamp } from "./logging";
+import type { RedisConnectionManager } from "./redis-connection-manager";
+import type { JobStatus, QueuedJob, QueueStatus } from "./services/coordinator.service";
+import { describePhase, formatDuration, formatTable, getPureNodeName } from "./utils";
+
+const STATUS_ORDER: JobStatus[] = ["active", "queued", "paused"];
+
+export interface QueueFilter {
+    arch?: string;
+    json: boolean;
+    repo?: string;
+    status?: JobStatus;
+}
+
+export interface LogOptions {
+    // Keep printing new output until the build ends
+    follow: boolean;
+    // The 1-based line to start printing at
+    since_line: number;
+}
+
+/**
+ * Prints the current state of the coordinator queue, as well as the idle builder nodes to stdout.
+ * @param broker The service broker used to reach the coordinator.
+ * @param filter Filters to apply to the queue and the output format to use.
+ */
+export async function printQueue(broker: ServiceBroker, filter: QueueFilter): Promise<void> {
+    await broker.waitForServices(["coordinator"], 10000);
+    const [queue, nodes] = await Promise.all([
+        broker.call<QueueStatus>("coordinator.getQueue"),
+        broker.call<any[]>("coordinator.getAvailableNodes"),
+    ]);
+
+    const jobs: QueuedJob[] = queue
+        .filter(
+            (job) =>
+                (!filter.repo || job.jobData.target_repo === filter.repo || job.jobData.source_repo === filter.repo) &&
+                (!filter.arch || job.jobData.arch === filter.arch) &&
+                (!filter.status || job.status === filter.status),
+        )
+        // Active jobs first, then queued and paused ones by priority and age like the coordinator assigns them
+        .sort(
+            (a, b) =>
+                STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+                b.priority - a.priority ||
+                a.timestamp - b.timestamp,
+        );
+    const idle_nodes = nodes.map((node) => ({
+        name: getPureNodeName(node.id),
+        build_class: node.metadata?.build_class,
+    }));
+
+    if (filter.json) {
+        process.stdout.write(JSON.stringify({ jobs, idle_nodes }, null, 2) + "\n");
+        return;
+    }
+
+    const now = Date.now();
+    const rows: string[][] = jobs.map((job) => [
+        `${job.jobData.target_repo}/${job.jobData.arch}/${job.jobData.pkgbase}`,
+        job.status,
+        job.node ? getPureNodeName(job.node) : "-",
+        String(job.buildClass),
+        String(job.priority),
+        formatDuration(now - job.timestamp),
+        job.eta !== undefined ? formatDuration(job.eta - now) : "-",
+        job.progress ? describePhase(job.progress) : "-",
+        job.liveLogUrl ?? "-",
+    ]);
+
+    const active = jobs.filter((job) => job.status === "active").length;
+    const paused = jobs.filter((job) => job.status === "paused").length;
+    process.stdout.write(
+        formatTable(["JOB", "STATUS", "NODE", "CLASS", "PRIORITY", "AGE", "ETA", "PHASE", "LOG"], rows) +
+            `\n\n${active} active, ${jobs.length - active - paused} queued, ${paused} paused\n`,
+    );
+    process.stdout.write(
+        `${idle_nodes.length} idle nodes` +
+            (idle_nodes.length > 0
+                ? `: ${idle_nodes.map((node) => `${node.name} (${node.build_class})`).join(", ")}`
+                : "") +
+            "\n",
+    );
+}
+
+/**
+ * Prints the log of a build to stdout, optionally following it until the build ends.
+ * @param broker The service broker used to reach the coordinator.
+ * @param manager The Redis connection manager to read the log from.
+ * @param pkgbase The pkgbase of the build.
+ * @param timestamp The timestamp of the build, defaults to the latest build of the pkgbase.
+ * @param options Whether to follow the log and which line to start at.
+ * @throws Error if no log exists for the build.
+ */
+export async function tailLog(
+    broker: ServiceBroker,
+    manager: RedisConnectionManager,
+    pkgbase: string,
+    timestamp: number | undefined,
+    options: LogOptions,
+): Promise<void> {
+    const connection = manager.getClient();
+    const subscriber = manager.getSubscriber();
+    const ts: number = timestamp ?? (await getDefaultTimestamp(connection, pkgbase));
+    const channel = `build-logs.${pkgbase}.${ts}`;
+
+    let skip: number = options.since_line - 1;
+    const write = (text: string): void => {
+        while (skip > 0 && text !== "") {
+            const newline = text.indexOf("\n");
+            text = newline === -1 ? "" : text.substring(newline + 1);
+            if (newline !== -1) skip--;
+        }
+        if (text !== "") process.stdout.write(text);
+    };
+
+    // Subscribe before fetching the stored log, so no output gets lost in between
+    const buffered: string[] = [];
+    let stored: string | undefined;
+    let ended = false;
+    let onEnd: (() => void) | undefined;
+    const forwarder = (message_channel: string, message: string) => {
+        if (message_channel !== channel) return;
+        if (message === "END") {
+            ended = true;
+            onEnd?.();
+        } else if (stored === undefined) {
+            buffered.push(message.substring(3));
+        } else {
+            write(message.substring(3));
+        }
+    };
+
+    if (options.follow) {
+        subscriber.on("message", forwarder);
+        await subscriber.subscribe(channel);
+    }
+
+    try {
+        const content: string | null = await connection.get(`build-logs:${pkgbase}:${ts}`);
+        if (content === null) throw new Error(`No log found for ${pkgbase} at ${ts}`);
+        stored = content;
+        write(content);
+        if (!options.follow) return;
+
+        // Messages published before the stored log was fetched may already be part of it
+        let known = buffered.length;
+        while (known > 0 && !content.endsWith(buffered.slice(0, known).join(""))) known--;
+        buffered.slice(known).forEach(write);
+
+        await broker.waitForServices(["coordinator"], 10000);
+        const running: boolean = await broker.call("coordinator.jobExists", { pkgbase, timestamp: ts });
+        if (!running || ended) return;
+
+        await new Promise<void>((resolve) => {
+            onEnd = resolve;
+        });
+    } finally {
+        if (options.follow) {
+            subscriber.removeListener("message", forwarder);
+            await subscriber.unsubscribe(channel);
+        }
+    }
+}
@@ -15,6 +15,19 @@ export class SshLogger {
     }
 }
 
+/**
+ * Resolves the timestamp of the latest build of a pkgbase, which is the one served by default.
+ * @param connection The Redis connection to use.
+ * @param pkgbase The pkgbase to look up.
+ * @returns The timestamp of the latest build.
+ * @throws Error if no build of the pkgbase is known.
+ */
+export async function getDefaultTimestamp(connection: RedisConnection, pkgbase: string): Promise<number> {
+    const [err, out] = await to(connection.get("build-logs:" + pkgbase + ":default"));
+    if (err || !out) throw new Error("Job not found");
+    return Number.parseInt(out);
+}
+
 export class BuildsRedisLogger {
     private init = false;
     private connection: RedisConnection;
@@ -32,11 +45,7 @@ export class BuildsRedisLogger {
     }
 
     public async fromDefault(pkgbase: string) {
-        this.default_key = "build-logs:" + pkgbase + ":default";
-        const [err, out] = await to(this.connection.get(this.default_key));
-        if (err || !out) throw new Error("Job not found");
-        const timestamp = Number.parseInt(out);
-        this.from(pkgbase, timestamp);
+        this.from(pkgbase, await getDefaultTimestamp(this.connection, pkgbase));
     }
 
     public from(pkgbase: string, timestamp: number) {
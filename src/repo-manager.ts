@@ -1,7 +1,7 @@
 import { URL } from "url";
 import to from "await-to-js";
 import type { Logger } from "moleculer";
-import type { CoordinatorJob, PacmanRepo } from "./types";
+import { type CoordinatorJob, DEFAULT_RETRY_POLICY, type PacmanRepo, type RetryPolicy } from "./types";
 
 export type GitlabState = "pending" | "running" | "success" | "failed" | "canceled";
 
@@ -67,6 +67,8 @@ export class Repo {
         public id: string,
         public repo: string,
         private notifier: GitlabNotifier | undefined,
+        // Weight of the repository when sharing the builders with other repositories
+        public share = 1,
     ) {}
 
     async notify(job: CoordinatorJob, status?: GitlabState, description?: string) {
@@ -85,6 +87,11 @@ export class Repo {
 export class TargetRepo {
     extra_repos: PacmanRepo[] = [];
     extra_keyrings: URL[] = [];
+    retry: RetryPolicy = DEFAULT_RETRY_POLICY;
+    // Weight of the repository when sharing the builders with other repositories
+    share = 1;
+    // Maximum number of jobs of the repository running at the same time, unlimited if undefined
+    max_concurrent: number | undefined = undefined;
 
     constructor(public name: string) {}
 
@@ -106,12 +113,34 @@ export class TargetRepo {
             }
             this.extra_keyrings = obj.extra_keyrings.map((link: string) => new URL(link));
         }
+        if (typeof obj.retry != "undefined") {
+            if (
+                !Number.isInteger(obj.retry.max_attempts) ||
+                obj.retry.max_attempts < 1 ||
+                typeof obj.retry.backoff !== "number" ||
+                !Array.isArray(obj.retry.statuses)
+            )
+                throw new Error("Invalid retry policy");
+            this.retry = obj.retry;
+        }
+        if (typeof obj.share != "undefined") {
+            if (!Number.isInteger(obj.share) || obj.share < 1) throw new Error("Invalid share");
+            this.share = obj.share;
+        }
+        if (typeof obj.max_concurrent != "undefined") {
+            if (!Number.isInteger(obj.max_concurrent) || obj.max_concurrent < 1)
+                throw new Error("Invalid max_concurrent");
+            this.max_concurrent = obj.max_concurrent;
+        }
     }
 
     toObject() {
         return {
             extra_repos: this.extra_repos,
             extra_keyrings: this.extra_keyrings.map((link) => link.toString()),
+            retry: this.retry,
+            share: this.share,
+            max_concurrent: this.max_concurrent,
         };
     }
 
@@ -148,10 +177,13 @@ export class RepoManager {
 
     repoFromObject(obj: object) {
         for (const [key, value] of Object.entries(obj)) {
-            if (typeof value.url !== "string") {
+            if (
+                typeof value.url !== "string" ||
+                (value.share !== undefined && (!Number.isInteger(value.share) || value.share < 1))
+            ) {
                 throw new Error("Invalid repo object");
             }
-            this.repos[key] = new Repo(key, value["url"], undefined);
+            this.repos[key] = new Repo(key, value["url"], undefined, value["share"]);
         }
     }
 
@@ -163,10 +195,11 @@ export class RepoManager {
     }
 
     repoToObject() {
-        const out: Record<string, { url: string }> = {};
+        const out: Record<string, { url: string; share: number }> = {};
         for (const [key, value] of Object.entries(this.repos)) {
             out[key] = {
                 url: value.getUrl(),
+                share: value.share,
             };
         }
         return out;
@@ -178,6 +211,9 @@ export class RepoManager {
             {
                 extra_repos: PacmanRepo[];
                 extra_keyrings: string[];
+                retry: RetryPolicy;
+                share: number;
+                max_concurrent: number | undefined;
             }
         > = {};
         for (const [key, value] of Object.entries(this.target_repos)) {
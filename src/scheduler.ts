@@ -1,11 +1,20 @@
-import type { ServiceBroker } from "moleculer";
+import type { Logger, ServiceBroker } from "moleculer";
+import { type Deptree, parseDeptree } from "./deptree";
 import {
-    BuildClass,
+    Builder_Action_Drain_Response,
     Coordinator_Action_AddJobsToQueue_Params,
     Coordinator_Action_AutoRepoRemove_Params,
+    Coordinator_Action_CancelJob_Params,
+    Coordinator_Action_CancelJob_Response,
+    Coordinator_Action_DryRunJobs_Response,
     Coordinator_Action_PackageMetaData_List,
+    Coordinator_Action_Pause_Params,
+    Coordinator_Action_Pause_Response,
+    Coordinator_Action_RebuildDependents_Params,
+    Coordinator_Action_RebuildDependents_Response,
+    LabelSelector,
 } from "./types";
-import { isNumeric, isValidPkgbase } from "./utils";
+import { getPureNodeName, isNumeric, isValidPkgbase, parseLabelSelector } from "./utils";
 
 export async function schedulePackages(
     broker: ServiceBroker,
@@ -16,34 +25,16 @@ export async function schedulePackages(
     commit: string | undefined,
     deptree: string | undefined,
     arch_mirror: string | undefined,
+    dry_run = false,
+    priority: number | undefined = undefined,
+    labels: string | undefined = undefined,
 ): Promise<void> {
-    const package_dependency_map: Record<
-        string,
-        {
-            dependencies: string[];
-            pkgnames: string[];
-        }
-    > = {};
-
     const chaoticLogger = broker.getLogger("CHAOTIC");
 
-    if (deptree) {
-        // Deptree format:
-        // pkgbase:pkgname1[,pkgname2,...]:dep1[,dep2,...];...
-        const deptree_split = deptree.split(";");
-
-        for (const pkg of deptree_split) {
-            const pkg_split = pkg.split(":");
-            const pkgbase = pkg_split[0];
-            const pkgname = pkg_split[1].split(",");
-            const deps = pkg_split[2].split(",");
-
-            package_dependency_map[pkgbase] = {
-                dependencies: deps,
-                pkgnames: pkgname,
-            };
-        }
-    }
+    // Either the legacy or the JSON format, detected automatically
+    const package_dependency_map: Deptree = deptree ? parseDeptree(deptree) : {};
+    // Applies to all packages, in addition to the label selectors of the deptree
+    const label_selector: LabelSelector = labels ? parseLabelSelector(labels) : {};
 
     const packageList: Coordinator_Action_PackageMetaData_List = [];
 
@@ -61,6 +52,12 @@ export async function schedulePackages(
             build_class: !build_class ? null : isNumeric(build_class) ? Number(build_class) : build_class,
             dependencies: dependencies ? dependencies.dependencies : undefined,
             pkgnames: dependencies ? dependencies.pkgnames : undefined,
+            priority,
+            requirements: dependencies ? dependencies.requirements : undefined,
+            label_selector: {
+                include: [...(label_selector.include ?? []), ...(dependencies?.label_selector?.include ?? [])],
+                exclude: [...(label_selector.exclude ?? []), ...(dependencies?.label_selector?.exclude ?? [])],
+            },
         });
     }
 
@@ -74,6 +71,16 @@ export async function schedulePackages(
     };
 
     await broker.waitForServices(["coordinator"], 10000);
+
+    if (dry_run) {
+        const result = await broker.call<
+            Coordinator_Action_DryRunJobs_Response,
+            Coordinator_Action_AddJobsToQueue_Params
+        >("coordinator.dryRunJobs", params);
+        logDryRun(chaoticLogger, result);
+        return;
+    }
+
     await broker.call("coordinator.addJobsToQueue", params);
 
     chaoticLogger.info(`Added packages to the queue.`);
@@ -82,6 +89,65 @@ export async function schedulePackages(
     return;
 }
 
+function logDryRun(chaoticLogger: Logger, result: Coordinator_Action_DryRunJobs_Response): void {
+    chaoticLogger.info("Dry run, nothing was added to the queue.");
+
+    result.waves.forEach((wave, index) => {
+        chaoticLogger.info(`Wave ${index + 1}: ${wave.map((entry) => `${entry.job} → ${entry.node}`).join(", ")}`);
+    });
+    if (result.waves.length === 0) chaoticLogger.warn("No job could be assigned to any connected builder.");
+
+    for (const cycle of result.cycles) {
+        chaoticLogger.warn(`Dependency cycle, built in arbitrary order: ${cycle.join(" ↔ ")}`);
+    }
+    if (result.unmatched.length > 0) {
+        chaoticLogger.warn(
+            `No connected builder matches the build class or requirements of: ${result.unmatched.join(", ")}`,
+        );
+    }
+    if (result.blocked.length > 0) {
+        chaoticLogger.warn(`Could not be assigned to any connected builder: ${result.blocked.join(", ")}`);
+    }
+    if (result.replacements.length > 0) {
+        chaoticLogger.info(`Running jobs that would be canceled and replaced: ${result.replacements.join(", ")}`);
+    }
+}
+
+export async function scheduleRebuildDependents(
+    broker: ServiceBroker,
+    arch: string,
+    target_repo: string,
+    source_repo: string,
+    pkgname: string,
+    commit: string | undefined,
+    arch_mirror: string | undefined,
+    priority: number | undefined = undefined,
+): Promise<void> {
+    const chaoticLogger = broker.getLogger("CHAOTIC");
+    const params: Coordinator_Action_RebuildDependents_Params = {
+        arch,
+        arch_mirror,
+        commit,
+        pkgname,
+        priority,
+        source_repo,
+        target_repo,
+    };
+    await broker.waitForServices(["coordinator"], 10000);
+    const result = await broker.call<
+        Coordinator_Action_RebuildDependents_Response,
+        Coordinator_Action_RebuildDependents_Params
+    >("coordinator.rebuildDependents", params);
+
+    if (result.queued.length === 0) {
+        chaoticLogger.warn(`No packages in ${target_repo} depend on ${pkgname} (${result.pkgbase}).`);
+    } else {
+        chaoticLogger.info(`Added ${result.queued.length} dependents of ${pkgname} (${result.pkgbase}) to the queue.`);
+        chaoticLogger.info(result.queued);
+    }
+    return;
+}
+
 export async function scheduleAutoRepoRemove(
     broker: ServiceBroker,
     arch: string,
@@ -97,3 +163,70 @@ export async function scheduleAutoRepoRemove(
     await broker.call("coordinator.autoRepoRemove", params);
     return;
 }
+
+export async function cancelJobs(broker: ServiceBroker, jobs: string[], reason: string | undefined): Promise<void> {
+    const chaoticLogger = broker.getLogger("CHAOTIC");
+    const params: Coordinator_Action_CancelJob_Params = {
+        jobs,
+        reason,
+    };
+    await broker.waitForServices(["coordinator"], 10000);
+    const result = await broker.call<Coordinator_Action_CancelJob_Response, Coordinator_Action_CancelJob_Params>(
+        "coordinator.cancelJob",
+        params,
+    );
+
+    if (result.canceled.length === 0) {
+        chaoticLogger.warn("No queued or running jobs matched the given IDs.");
+    } else {
+        chaoticLogger.info(`Canceled ${result.canceled.length} jobs.`);
+        chaoticLogger.info(result.canceled);
+    }
+    return;
+}
+
+export async function setPaused(
+    broker: ServiceBroker,
+    params: Coordinator_Action_Pause_Params,
+    paused: boolean,
+): Promise<void> {
+    const chaoticLogger = broker.getLogger("CHAOTIC");
+    await broker.waitForServices(["coordinator"], 10000);
+    const result = await broker.call<Coordinator_Action_Pause_Response, Coordinator_Action_Pause_Params>(
+        paused ? "coordinator.pause" : "coordinator.resume",
+        params,
+    );
+
+    const scopes: string[] = (["target_repo", "source_repo", "arch"] as const).flatMap((scope) =>
+        result.paused[scope].map((name) => `${scope} ${name}`),
+    );
+    if (scopes.length === 0) {
+        chaoticLogger.info("Nothing is paused.");
+    } else {
+        chaoticLogger.info(`Paused: ${scopes.join(", ")}`);
+    }
+    return;
+}
+
+export async function setDrained(broker: ServiceBroker, node_name: string, drained: boolean): Promise<void> {
+    const chaoticLogger = broker.getLogger("CHAOTIC");
+    await broker.waitForServices(["builder"], 10000);
+    // Builder nodes are usually referred to by their hostname, which lacks the random suffix of the node ID
+    const nodes: any[] = (await broker.call<any[]>("$node.list")).filter(
+        (node) => node.available && (node.id === node_name || getPureNodeName(node.id) === node_name),
+    );
+    if (nodes.length === 0) throw new Error(`No connected node named ${node_name} was found.`);
+
+    for (const node of nodes) {
+        const result = await broker.call<Builder_Action_Drain_Response, object>(
+            drained ? "builder.drain" : "builder.undrain",
+            {},
+            { nodeID: node.id },
+        );
+        chaoticLogger.info(
+            `${drained ? "Drained" : "Undrained"} node ${node.id}, ${result.running.length} builds are running on it.`,
+        );
+        if (result.running.length > 0) chaoticLogger.info(result.running);
+    }
+    return;
+}
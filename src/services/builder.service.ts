@@ -1,82 +1,157 @@
 import fs from "fs";
 import type { Dirent, Stats } from "node:fs";
+import os from "os";
 import path from "path";
-import { E_ALREADY_LOCKED, Mutex, tryAcquire } from "async-mutex";
+import { Mutex, tryAcquire } from "async-mutex";
 import { to } from "await-to-js";
 import type { Container } from "dockerode";
 import { type Context, type Logger, Service, type ServiceBroker } from "moleculer";
-import { Client as SshClient } from "ssh2";
+import {
+    type ArtifactTransport,
+    HttpTransport,
+    type UploadProgressCallback,
+    LocalTransport,
+    SftpTransport,
+    UploadProgressReporter,
+} from "../artifact-transport";
 import { type ContainerManager, DockerManager, PodmanManager } from "../container-manager";
-import { BuildsRedisLogger, SshLogger } from "../logging";
+import { BuildsRedisLogger } from "../logging";
 import type { RedisConnectionManager } from "../redis-connection-manager";
 import {
+    type ArtifactTransportType,
     type Builder_Action_BuildPackage_Params,
+    type Builder_Action_CancelBuild_Params,
+    type Builder_Action_Drain_Response,
+    type BuilderHeartbeat,
+    type BuilderPhaseEvent,
+    type BuilderResources,
+    type BuildPhase,
     BuildStatus,
     type BuildStatusReturn,
+    type ContainerUsage,
     type Database_Action_AddToDb_Params,
+    type Database_Action_fetchUploadInfo_Response,
     type Database_Action_GenerateDestFillerFiles_Params,
+    HEARTBEAT_INTERVAL,
     type MetricsHistogramContext,
+    type RemoteSettings,
     SOURCECACHE_MAX_LIFETIME,
+    STAGING_MAX_LIFETIME,
 } from "../types";
-import { currentTime, getDurationInMilliseconds, isNumeric } from "../utils";
+import { currentTime, getDurationInMilliseconds, sha256File } from "../utils";
 import { MoleculerConfigCommonService } from "./moleculer.config";
 
+// Printed by the build container once it starts checking the built packages with namcap
+const NAMCAP_MARKER = "Checking the package integrity with namcap";
+
+/**
+ * A build slot runs one job at a time in its own container, using its own set of directories.
+ */
+interface BuildSlot {
+    index: number;
+    mutex: Mutex;
+    // ID of the job currently running in this slot
+    job_id: string | null;
+    container: Container | null;
+    transport: ArtifactTransport | null;
+    heartbeat: NodeJS.Timeout | null;
+    // ID of the job a heartbeat is waiting for the container engine for, which might have wedged
+    probing: string | null;
+    // The container writes the timeout of the build to this file, including the extra timeout of the package
+    timeout_file: string | null;
+    cancelled: boolean;
+    cancelledCode: BuildStatus.CANCELED | BuildStatus.CANCELED_REQUEUE;
+    // Paths on the host, which are mounted into the build container
+    shared_pkgout: string;
+    shared_sources: string;
+    shared_tmpOut: string;
+    shared_build: string | null;
+    // Paths of the same directories inside this container
+    mountPkgout: string;
+    mountSources: string;
+    mountTmpOut: string;
+    mountBuild: string;
+}
+
 /**
- * The BuilderService class is a moleculer service that provides the buildPackage and cancelBuild actions.
+ * The BuilderService class is a moleculer service that provides the buildPackage, cancelBuild, drain and undrain
+ * actions.
  */
 export class BuilderService extends Service {
-    private mutex: Mutex = new Mutex();
-
-    private builder = {
-        ci_code_skip: Number(process.env.CI_CODE_SKIP) || 123,
-        name: process.env.BUILDER_HOSTNAME || "chaotic-builder",
-        timeout: Number(process.env.BUILDER_TIMEOUT) || 3600,
-        container_engine: process.env.CONTAINER_ENGINE ? "podman" : "docker",
-        cpu_limit:
-            process.env.BUILDER_LIMITS_CPUS && isNumeric(process.env.BUILDER_LIMITS_CPUS)
-                ? Number(process.env.BUILDER_LIMITS_CPUS)
-                : null,
+    private slots: BuildSlot[];
+
+    private builder: {
+        ci_code_skip: number;
+        name: string;
+        timeout: number;
+        container_engine: "docker" | "podman";
+        cpu_limit: number | null;
+        ram_limit: number | null;
     };
 
     private shared_srcdest_cache: string;
-    private shared_pkgout: string;
-    private shared_sources: string;
-    private shared_tmpOut: string;
-    private shared_build: string | null;
-    private mountPkgout = "/shared/pkgout";
+    private mountShared = "/shared";
     private mountSrcdest = "/shared/srcdest_cache";
-    private mountTmpOut = "/shared/temp";
-    private mountBuild = "/shared/build";
+    private mountStaging = "/shared/staging";
 
     private containerManager: ContainerManager;
-    private container: Container | null = null;
-    private cancelled = false;
     private chaoticLogger: Logger = this.broker.getLogger("CHAOTIC");
 
-    private sshClient: SshClient | null = null;
-
-    private cancelledCode: BuildStatus.CANCELED | BuildStatus.CANCELED_REQUEUE = BuildStatus.CANCELED;
     private active = true;
+    // Drained nodes let their running builds finish, but accept no new ones
+    private drained = false;
 
     constructor(
         broker: ServiceBroker,
         private redis_connection_manager: RedisConnectionManager,
-        SHARED_PATH: string,
+        private config: RemoteSettings,
     ) {
         super(broker);
-        this.shared_srcdest_cache =
-            process.env.BUILDER_SRCDEST_CACHE_OVERRIDE || path.join(SHARED_PATH, "srcdest_cache");
-        this.shared_pkgout = path.join(SHARED_PATH, "pkgout");
-        this.shared_sources = path.join(SHARED_PATH, "sources");
-        this.shared_tmpOut = path.join(SHARED_PATH, "temp");
-        this.shared_build = process.env.BUILDER_BUILD_DIR_HOST || null;
-        this.mountBuild = process.env.BUILDER_BUILD_DIR_MANAGER || "/shared/build";
+        const shared_path: string = config.builder.shared_path!;
+        this.builder = {
+            ci_code_skip: config.builder.ci_code_skip,
+            name: config.builder.hostname || "chaotic-builder",
+            timeout: config.builder.timeout,
+            container_engine: config.container_engine,
+            cpu_limit: config.builder.limits.cpus ?? null,
+            ram_limit: config.builder.limits.ram ?? null,
+        };
+        this.shared_srcdest_cache = config.builder.srcdest_cache_override || path.join(shared_path, "srcdest_cache");
+
+        const slots: number = config.builder.slots;
+        this.slots = Array.from({ length: slots }, (_, index): BuildSlot => {
+            // A single slot uses the directories themselves, multiple slots get a subdirectory each
+            const slotPath = (dir: string): string => (slots === 1 ? dir : path.join(dir, `slot-${index}`));
+            const build_dir_host: string | undefined = config.builder.build_dir_host;
+            return {
+                index,
+                mutex: new Mutex(),
+                job_id: null,
+                container: null,
+                transport: null,
+                heartbeat: null,
+                probing: null,
+                timeout_file: null,
+                cancelled: false,
+                cancelledCode: BuildStatus.CANCELED,
+                shared_pkgout: slotPath(path.join(shared_path, "pkgout")),
+                shared_sources: slotPath(path.join(shared_path, "sources")),
+                shared_tmpOut: slotPath(path.join(shared_path, "temp")),
+                shared_build: build_dir_host ? slotPath(build_dir_host) : null,
+                mountPkgout: slotPath("/shared/pkgout"),
+                mountSources: slotPath("/shared/sources"),
+                mountTmpOut: slotPath("/shared/temp"),
+                mountBuild: slotPath(config.builder.build_dir_manager),
+            };
+        });
 
         this.parseServiceSchema({
             name: "builder",
             actions: {
                 buildPackage: this.buildPackage,
                 cancelBuild: this.cancelBuild,
+                drain: this.drain,
+                undrain: this.undrain,
             },
             ...MoleculerConfigCommonService,
         });
@@ -86,6 +161,9 @@ export class BuilderService extends Service {
         } else {
             this.containerManager = new DockerManager(this.chaoticLogger);
         }
+
+        // The coordinator matches these against the resource requirements of jobs
+        this.broker.metadata.resources = this.getResources();
     }
 
     /**
@@ -96,51 +174,101 @@ export class BuilderService extends Service {
      */
     async buildPackage(ctx: Context<Builder_Action_BuildPackage_Params>): Promise<BuildStatusReturn> {
         const data: Builder_Action_BuildPackage_Params = ctx.params;
-        this.cancelled = false;
 
-        // If this fails, something has gone terribly wrong.
-        // The coordinator should never send two jobs to the same builder
-        return await tryAcquire(this.mutex)
+        const slot: BuildSlot | undefined = this.slots.find((slot) => !slot.mutex.isLocked());
+        if (!slot) {
+            // Something has gone wrong on the coordinator side, it should never send more jobs than we have slots.
+            // An older run of the same job is outdated, so cancel it and requeue the new job the coordinator gave us.
+            // Delay the requeue by as long as it takes us to cancel the build to guarantee the next job is processed without trouble.
+            const stale: BuildSlot | undefined = this.slots.find((slot) => slot.job_id === data.job_id);
+            if (stale) await this.cancelSlot(stale);
+            return { success: BuildStatus.CANCELED_REQUEUE };
+        }
+        slot.cancelled = false;
+        slot.job_id = data.job_id;
+
+        // Acquiring the mutex happens synchronously, so no other job can have taken the slot in the meantime
+        return await tryAcquire(slot.mutex)
             .runExclusive(async (): Promise<BuildStatusReturn> => {
-                if (!this.active) {
+                if (!this.active || this.drained) {
                     return {
                         success: BuildStatus.CANCELED_REQUEUE,
                     };
                 }
+                slot.heartbeat = setInterval(() => void this.sendHeartbeat(slot), HEARTBEAT_INTERVAL);
 
                 const timeStart: [number, number] = process.hrtime();
                 const logger = new BuildsRedisLogger(this.redis_connection_manager.getClient(), this.broker, "BUILD");
                 logger.from(data.pkgbase, data.timestamp);
 
                 logger.log(`Processing build job at ${currentTime()}`);
-                this.chaoticLogger.info(`Processing build job for ${data.pkgbase}`);
+                this.chaoticLogger.info(`Processing build job for ${data.pkgbase} in slot ${slot.index}`);
+
+                // Packages are staged per job, so that a retry of it can find them
+                const staging_dir: string = path.join(
+                    this.mountStaging,
+                    data.target_repo,
+                    data.arch,
+                    data.pkgbase,
+                    String(data.timestamp),
+                );
+                this.clearStaging();
+
+                if (data.resume_upload) {
+                    const [namcapAnalysis, staged] = this.getStagedPackages(staging_dir);
+                    if (staged.length > 0) {
+                        logger.log(`Resuming the upload of ${staged.length} packages built by a previous attempt.`);
+                        this.chaoticLogger.info(`Resuming upload for ${data.pkgbase}`);
+                        return await this.deployPackages(
+                            ctx,
+                            slot,
+                            data,
+                            logger,
+                            staging_dir,
+                            staged,
+                            namcapAnalysis,
+                            timeStart,
+                        );
+                    }
+                    logger.log(`Packages built by a previous attempt are gone, rebuilding.`);
+                }
 
                 // Make sure the pkgout directory is clean for the current build
-                this.ensurePathClean(this.mountPkgout);
+                this.ensurePathClean(slot.mountPkgout);
 
                 // Make sure the build directory is clean for the current build
-                if (this.shared_build) this.ensurePathClean(this.mountBuild);
+                if (slot.shared_build) this.ensurePathClean(slot.mountBuild);
+
+                // The container engine might not create missing directories to mount
+                fs.mkdirSync(slot.mountSources, { recursive: true });
+                fs.mkdirSync(slot.mountTmpOut, { recursive: true });
+                slot.timeout_file = path.join(slot.mountTmpOut, `${data.pkgbase}.timeout`);
+                fs.rmSync(slot.timeout_file, { force: true });
 
                 // Generate filler files in the pkgout directory.
                 // Goal: Avoid building packages that are already in the target repo
-                await this.generateDestFillerFiles(ctx, data.target_repo, data.arch, this.mountPkgout);
+                void this.reportPhase(slot, "filling");
+                await this.generateDestFillerFiles(ctx, data.target_repo, data.arch, slot.mountPkgout);
 
                 // Generate the folder path for the specific package source cache
                 const srcdest_package_path = this.manageSourceCache(data);
 
                 // Make sure the builder image is always up to date
+                void this.reportPhase(slot, "pulling");
                 await this.containerManager.scheduledPull(data.builder_image);
 
+                void this.reportPhase(slot, "building");
+
                 // Append the container object to the job context
-                this.container = await this.containerManager.create(
+                slot.container = await this.containerManager.create(
                     data.builder_image,
                     ["build", data.pkgbase],
                     [
                         srcdest_package_path + ":/home/builder/srcdest_cached",
-                        this.shared_pkgout + ":/home/builder/pkgout",
-                        this.shared_sources + ":/pkgbuilds",
-                        this.shared_tmpOut + ":/home/builder/tempOut",
-                        ...(this.shared_build ? [`${this.shared_build}:/home/builder/build`] : []),
+                        slot.shared_pkgout + ":/home/builder/pkgout",
+                        slot.shared_sources + ":/pkgbuilds",
+                        slot.shared_tmpOut + ":/home/builder/tempOut",
+                        ...(slot.shared_build ? [`${slot.shared_build}:/home/builder/build`] : []),
                     ],
                     [
                         "BUILDER_HOSTNAME=" + this.builder.name,
@@ -156,28 +284,36 @@ export class BuilderService extends Service {
                     {
                         CpuPeriod: this.builder.cpu_limit ? 100000 : undefined,
                         CpuQuota: this.builder.cpu_limit ? 100000 * this.builder.cpu_limit : undefined,
-                        Memory:
-                            process.env.BUILDER_LIMITS_RAM && isNumeric(process.env.BUILDER_LIMITS_RAM)
-                                ? Number(process.env.BUILDER_LIMITS_RAM) * 1024 * 1024
-                                : undefined,
+                        Memory: this.builder.ram_limit ? this.builder.ram_limit * 1024 * 1024 : undefined,
                     },
                 );
 
-                if (this.cancelled) {
-                    await this.containerManager.kill(this.container).catch((e) => {
+                if (slot.cancelled) {
+                    await this.containerManager.kill(slot.container).catch((e) => {
                         this.chaoticLogger.error(e);
                     });
                     return {
-                        success: this.cancelledCode,
+                        success: slot.cancelledCode,
                     };
                 }
 
-                const [err, out] = await to(this.containerManager.start(this.container, logger.raw_log.bind(logger)));
+                let checking = false;
+                const [err, out] = await to(
+                    this.containerManager.start(slot.container, (chunk: string) => {
+                        logger.raw_log(chunk);
+                        if (!checking && chunk.includes(NAMCAP_MARKER)) {
+                            checking = true;
+                            void this.reportPhase(slot, "namcap");
+                        }
+                    }),
+                );
+                // The container removes itself once it exited
+                slot.container = null;
 
-                if (this.cancelled) {
+                if (slot.cancelled) {
                     // At this point, the container has already stopped; there is no need to kill it
                     return {
-                        success: this.cancelledCode,
+                        success: slot.cancelledCode,
                     };
                 }
 
@@ -215,8 +351,8 @@ export class BuilderService extends Service {
                 }
 
                 // Remove any filler files from the equation
-                const file_list: string[] = fs.readdirSync(this.mountPkgout).filter((file): boolean => {
-                    const stats: Stats = fs.statSync(path.join(this.mountPkgout, file));
+                const file_list: string[] = fs.readdirSync(slot.mountPkgout).filter((file): boolean => {
+                    const stats: Stats = fs.statSync(path.join(slot.mountPkgout, file));
                     return stats.isFile() && stats.size > 0;
                 });
 
@@ -232,114 +368,10 @@ export class BuilderService extends Service {
                     );
                 }
 
-                const sshlogger = new SshLogger();
-                try {
-                    this.chaoticLogger.info(`Uploading files to the landing zone for ${data.pkgbase}.`);
-
-                    // Prefer override values from the environment
-                    const sshConn = new SshClient();
-                    this.sshClient = sshConn;
-
-                    await new Promise<void>((resolve, reject) => {
-                        const timeout = setTimeout(() => {
-                            reject(new Error("SSH Connection timeout"));
-                        }, 30000);
-
-                        sshConn
-                            .on("ready", () => {
-                                clearTimeout(timeout);
-                                sshConn.sftp(async (err, sftp) => {
-                                    if (err) return reject(err);
-
-                                    try {
-                                        for (const file of file_list) {
-                                            const localPath = path.join(this.mountPkgout, file);
-                                            const remotePath = `${data.upload_info.database.landing_zone}/${file}`;
-                                            await new Promise<void>((res, rej) => {
-                                                sftp.fastPut(localPath, remotePath, (err) => {
-                                                    if (err) rej(err);
-                                                    else res();
-                                                });
-                                            });
-                                        }
-                                        resolve();
-                                    } catch (e) {
-                                        reject(e);
-                                    }
-                                });
-                            })
-                            .on("error", (err) => {
-                                clearTimeout(timeout);
-                                reject(err);
-                            })
-                            .connect({
-                                host: String(process.env.DATABASE_HOST || data.upload_info.database.ssh.host),
-                                port: Number(process.env.DATABASE_PORT || data.upload_info.database.ssh.port),
-                                username: String(process.env.DATABASE_USER || data.upload_info.database.ssh.user),
-                                privateKey: fs.readFileSync("sshkey"),
-                                debug: sshlogger.log.bind(sshlogger),
-                                keepaliveInterval: 10000,
-                                readyTimeout: 30000, // Timeout for connection
-                            });
-                    });
-
-                    if (this.cancelled) {
-                        return {
-                            success: this.cancelledCode,
-                            duration: this.stopTimer(timeStart),
-                        };
-                    }
-
-                    this.chaoticLogger.debug(`Finished uploading files to the landing zone for ${data.pkgbase}.`);
-
-                    sshConn.end();
-                    this.chaoticLogger.debug(`SSH client connection closed for ${data.pkgbase}.`);
-                } catch (e) {
-                    if (this.cancelled) {
-                        return {
-                            success: this.cancelledCode,
-                            duration: this.stopTimer(timeStart),
-                        };
-                    }
-
-                    logger.error(`Failed to upload: ${e}`);
-
-                    // This does not get logged to redis
-                    this.chaoticLogger.error(sshlogger.dump());
-                    this.chaoticLogger.info("End of SSH log.");
-
-                    return { success: BuildStatus.FAILED };
-                } finally {
-                    if (this.sshClient) {
-                        this.sshClient.end();
-                        this.sshClient = null;
-                    }
-                }
-
-                logger.log(`Finished upload.`);
-                this.chaoticLogger.info(`Finished upload of ${data.pkgbase}`);
-
-                if (this.cancelled) {
-                    return {
-                        success: this.cancelledCode,
-                    };
-                }
-
-                const addToDbParams: Database_Action_AddToDb_Params = {
-                    source_repo: data.source_repo,
-                    target_repo: data.target_repo,
-                    arch: data.arch,
-                    pkgbase: data.pkgbase,
-                    pkgfiles: file_list,
-                    builder_image: data.builder_image,
-                    timestamp: data.timestamp,
-                };
-                const addToDbReturn: { success: boolean } = await ctx.call("database.addToDb", addToDbParams);
-
                 // Retrieve any information from the namcap analysis file if it exists and clean up afterwards
                 let namcapAnalysis = "";
                 try {
-                    const filesInTempOut: Dirent[] = fs.readdirSync(this.mountTmpOut, {
+                    const filesInTempOut: Dirent[] = fs.readdirSync(slot.mountTmpOut, {
                         withFileTypes: true,
                     });
                     const namcapAnalysisFile: Dirent | undefined = filesInTempOut.find(
@@ -347,10 +379,10 @@ export class BuilderService extends Service {
                     );
 
                     if (namcapAnalysisFile) {
-                        namcapAnalysis = fs.readFileSync(path.join(this.mountTmpOut, namcapAnalysisFile.name), {
+                        namcapAnalysis = fs.readFileSync(path.join(slot.mountTmpOut, namcapAnalysisFile.name), {
                             encoding: "utf-8",
                         });
-                        fs.rmSync(path.join(this.mountTmpOut, namcapAnalysisFile.name));
+                        fs.rmSync(path.join(slot.mountTmpOut, namcapAnalysisFile.name));
                     } else {
                         this.chaoticLogger.error(`Namcap analysis file not found for ${data.pkgbase}`);
                     }
@@ -358,66 +390,449 @@ export class BuilderService extends Service {
                     this.chaoticLogger.error(err);
                 }
 
-                if (!addToDbReturn.success) {
-                    return {
-                        success: BuildStatus.FAILED,
-                        duration: this.stopTimer(timeStart),
-                    };
-                } else {
-                    const duration = this.stopTimer(timeStart);
-                    ctx.broadcast<MetricsHistogramContext>("builds.addToBuildTimerHistogram", {
-                        labels: {
-                            arch: data.arch,
-                            pkgbase: data.pkgbase,
-                            target_repo: data.target_repo,
-                        },
-                        duration: duration,
-                    }).catch((e) => {
-                        this.chaoticLogger.error("Error while adding to histogram: ", e);
-                    });
-                    return {
-                        success: BuildStatus.SUCCESS,
-                        packages: file_list,
-                        duration,
-                        namcapAnalysis,
-                    };
+                // Keep the packages until they are deployed, so a failed upload can be retried without rebuilding them
+                fs.mkdirSync(staging_dir, { recursive: true });
+                for (const file of file_list) {
+                    fs.renameSync(path.join(slot.mountPkgout, file), path.join(staging_dir, file));
                 }
+                fs.writeFileSync(path.join(staging_dir, ".namcap"), namcapAnalysis);
+
+                return await this.deployPackages(
+                    ctx,
+                    slot,
+                    data,
+                    logger,
+                    staging_dir,
+                    file_list,
+                    namcapAnalysis,
+                    timeStart,
+                );
             })
-            .catch(async (e) => {
-                if (e === E_ALREADY_LOCKED) {
-                    // Something has gone wrong on the coordinator side. Cancel the currently running build and requeue the new job the coordinator gave us.
-                    // Delay the requeue by as long as it takes us to cancel the current build to guarantee the next job is processed without trouble.
-                    await this.cancelBuild();
-                    return { success: BuildStatus.CANCELED_REQUEUE };
-                }
+            .catch((e) => {
                 this.chaoticLogger.error("Error in buildPackage: ", e);
                 throw e;
             })
             .finally(() => {
-                this.container = null;
+                if (slot.heartbeat) clearInterval(slot.heartbeat);
+                slot.heartbeat = null;
+                // A heartbeat stuck on a wedged container engine must not block the heartbeats of the next job
+                slot.probing = null;
+                if (slot.timeout_file) fs.rmSync(slot.timeout_file, { force: true });
+                slot.timeout_file = null;
+                slot.container = null;
+                slot.job_id = null;
+                this.updateMetadata();
             });
     }
 
     /**
-     * Cancels a build by killing the container associated with the current builder.
+     * Deploys staged packages, removing the staging directory afterwards. It is kept if the upload or the database
+     * failed, so that a retry of the job can resume from it.
+     * @param ctx The Moleculer context object
+     * @param slot The slot running the job
+     * @param data The parameters of the build job
+     * @param logger The logger of the build job
+     * @param staging_dir The directory containing the built packages
+     * @param file_list The names of the packages to deploy
+     * @param namcapAnalysis The namcap analysis of the packages
+     * @param timeStart The start time of the job
+     * @returns The status of the deployment as a BuildStatusReturn object
+     * @private
      */
-    async cancelBuild(): Promise<void> {
-        if (!this.cancelled) {
-            this.cancelled = true;
-            if (!this.mutex.isLocked()) return;
-            if (this.container) {
-                this.containerManager.kill(this.container).catch((e) => {
+    private async deployPackages(
+        ctx: Context<Builder_Action_BuildPackage_Params>,
+        slot: BuildSlot,
+        data: Builder_Action_BuildPackage_Params,
+        logger: BuildsRedisLogger,
+        staging_dir: string,
+        file_list: string[],
+        namcapAnalysis: string,
+        timeStart: [number, number],
+    ): Promise<BuildStatusReturn> {
+        const ret: BuildStatusReturn = await this.uploadPackages(
+            ctx,
+            slot,
+            data,
+            logger,
+            staging_dir,
+            file_list,
+            namcapAnalysis,
+            timeStart,
+        );
+        if (ret.success !== BuildStatus.UPLOAD_FAILED && ret.success !== BuildStatus.DATABASE_FAILED) {
+            fs.rmSync(staging_dir, { recursive: true, force: true });
+        }
+        return ret;
+    }
+
+    /**
+     * Uploads the given packages to the landing zone and adds them to the database.
+     * @see deployPackages
+     * @private
+     */
+    private async uploadPackages(
+        ctx: Context<Builder_Action_BuildPackage_Params>,
+        slot: BuildSlot,
+        data: Builder_Action_BuildPackage_Params,
+        logger: BuildsRedisLogger,
+        staging_dir: string,
+        file_list: string[],
+        namcapAnalysis: string,
+        timeStart: [number, number],
+    ): Promise<BuildStatusReturn> {
+        // Lets the database verify that the packages arrived intact
+        const checksums: Record<string, string> = {};
+        for (const file of file_list) {
+            checksums[file] = await sha256File(path.join(staging_dir, file));
+        }
+
+        try {
+            const transport: ArtifactTransport = this.createTransport(data.upload_info);
+            slot.transport = transport;
+
+            this.chaoticLogger.info(`Uploading files to the landing zone for ${data.pkgbase}.`);
+            const uploadStart: [number, number] = process.hrtime();
+            const progress = new UploadProgressReporter(logger);
+            const uploaded = new Set<string>();
+            const update: UploadProgressCallback = (file, transferred, total) => {
+                progress.update(file, transferred, total);
+                if (transferred < total || uploaded.has(file)) return;
+                uploaded.add(file);
+                void this.reportPhase(slot, "uploading", uploaded.size, file_list.length);
+            };
+            void this.reportPhase(slot, "uploading", 0, file_list.length);
+            progress.start();
+            try {
+                await transport.upload(staging_dir, file_list, update);
+                progress.finish(true);
+            } catch (e) {
+                progress.finish(false);
+                throw e;
+            }
+
+            ctx.broadcast<MetricsHistogramContext>("builds.addToUploadTimerHistogram", {
+                labels: {
+                    arch: data.arch,
+                    pkgbase: data.pkgbase,
+                    target_repo: data.target_repo,
+                },
+                duration: getDurationInMilliseconds(uploadStart) / 1000,
+            }).catch((e) => {
+                this.chaoticLogger.error("Error while adding to histogram: ", e);
+            });
+
+            if (slot.cancelled) {
+                return {
+                    success: slot.cancelledCode,
+                    duration: this.stopTimer(timeStart),
+                };
+            }
+
+            this.chaoticLogger.debug(`Finished uploading files to the landing zone for ${data.pkgbase}.`);
+        } catch (e) {
+            if (slot.cancelled) {
+                return {
+                    success: slot.cancelledCode,
+                    duration: this.stopTimer(timeStart),
+                };
+            }
+
+            logger.error(`Failed to upload: ${e}`);
+
+            return {
+                success: BuildStatus.UPLOAD_FAILED,
+                duration: this.stopTimer(timeStart),
+            };
+        } finally {
+            slot.transport = null;
+        }
+
+        logger.log(`Finished upload.`);
+        this.chaoticLogger.info(`Finished upload of ${data.pkgbase}`);
+
+        if (slot.cancelled) {
+            return {
+                success: slot.cancelledCode,
+            };
+        }
+
+        void this.reportPhase(slot, "adding");
+        const addToDbParams: Database_Action_AddToDb_Params = {
+            source_repo: data.source_repo,
+            target_repo: data.target_repo,
+            arch: data.arch,
+            pkgbase: data.pkgbase,
+            pkgfiles: file_list,
+            builder_image: data.builder_image,
+            checksums,
+            timestamp: data.timestamp,
+        };
+        const [addToDbErr, addToDbReturn] = await to(
+            ctx.call<{ success: boolean }, Database_Action_AddToDb_Params>("database.addToDb", addToDbParams),
+        );
+        if (addToDbErr) {
+            logger.error(`Failed to add packages to the database: ${addToDbErr.message}`);
+            this.chaoticLogger.error("Failed to call the database service:", addToDbErr);
+        }
+
+        if (!addToDbReturn?.success) {
+            return {
+                success: BuildStatus.DATABASE_FAILED,
+                duration: this.stopTimer(timeStart),
+            };
+        } else {
+            const duration = this.stopTimer(timeStart);
+            ctx.broadcast<MetricsHistogramContext>("builds.addToBuildTimerHistogram", {
+                labels: {
+                    arch: data.arch,
+                    pkgbase: data.pkgbase,
+                    target_repo: data.target_repo,
+                },
+                duration: duration,
+            }).catch((e) => {
+                this.chaoticLogger.error("Error while adding to histogram: ", e);
+            });
+            return {
+                success: BuildStatus.SUCCESS,
+                packages: file_list,
+                duration,
+                namcapAnalysis,
+            };
+        }
+    }
+
+    /**
+     * Creates the transport used to upload packages to the landing zone. The builder config takes precedence over the
+     * transport advertised by the database node.
+     * @param upload_info The upload information provided by the database node
+     * @returns The transport to use
+     * @throws Error if the transport lacks required settings
+     * @private
+     */
+    private createTransport(upload_info: Database_Action_fetchUploadInfo_Response): ArtifactTransport {
+        const transport: ArtifactTransportType = this.config.builder.transport || upload_info.transport || "sftp";
+        switch (transport) {
+            case "http":
+                if (!upload_info.database.upload_url) throw new Error("The database node does not accept HTTP uploads");
+                if (!this.config.builder.upload_token) throw new Error("HTTP uploads require an upload token");
+                return new HttpTransport(upload_info.database.upload_url, this.config.builder.upload_token);
+            case "local":
+                return new LocalTransport(this.config.builder.landing_zone || upload_info.database.landing_zone);
+            case "sftp":
+                // Prefer override values from the environment
+                return new SftpTransport(
+                    {
+                        host: this.config.database.ssh.host || upload_info.database.ssh.host,
+                        port: this.config.database.ssh.port || upload_info.database.ssh.port,
+                        username: this.config.database.ssh.user || upload_info.database.ssh.user,
+                        privateKey: fs.readFileSync(this.config.builder.ssh_key),
+                    },
+                    upload_info.database.landing_zone,
+                    this.chaoticLogger,
+                    this.config.builder.upload_concurrency,
+                );
+        }
+    }
+
+    /**
+     * Cancels a build by killing the container of the slot running the given job. Jobs not running on this builder
+     * are ignored.
+     * @param ctx The Moleculer context object
+     */
+    async cancelBuild(ctx: Context<Builder_Action_CancelBuild_Params>): Promise<void> {
+        const slot: BuildSlot | undefined = this.slots.find((slot) => slot.job_id === ctx.params.job_id);
+        if (slot) await this.cancelSlot(slot);
+    }
+
+    /**
+     * Stops accepting new builds, while the running ones are allowed to finish. This takes the node out of rotation,
+     * e.g. for maintenance, without throwing away any builds like stopping it would.
+     * @returns The IDs of the jobs still running on this node.
+     */
+    async drain(): Promise<Builder_Action_Drain_Response> {
+        if (!this.drained) {
+            this.drained = true;
+            this.chaoticLogger.info("Draining this node, no new builds will be accepted.");
+            this.updateMetadata();
+        }
+        return { running: this.getRunningJobs() };
+    }
+
+    /**
+     * Accepts new builds again after the node was drained.
+     * @returns The IDs of the jobs running on this node.
+     */
+    async undrain(): Promise<Builder_Action_Drain_Response> {
+        if (this.drained) {
+            this.drained = false;
+            this.chaoticLogger.info("Accepting new builds again.");
+            this.updateMetadata();
+        }
+        return { running: this.getRunningJobs() };
+    }
+
+    /**
+     * Tells the coordinator that the job of a slot is still alive. While a container is running, this samples its
+     * resource usage, which waits for the container engine to respond, so that a wedged engine lets the watchdog of the
+     * coordinator take over. Errors of the engine only omit the usage, as they do not mean the build is stuck.
+     * @param slot The slot running the job
+     * @private
+     */
+    private async sendHeartbeat(slot: BuildSlot): Promise<void> {
+        // The slot might already run another job by the time the container engine answers
+        const { job_id, container, timeout_file } = slot;
+        if (!job_id || slot.probing === job_id) return;
+        slot.probing = job_id;
+        try {
+            let usage: ContainerUsage | undefined;
+            if (container) {
+                const [err, sample] = await to(this.containerManager.getUsage(container));
+                if (err) this.chaoticLogger.debug(`Failed to sample the resource usage of slot ${slot.index}:`, err);
+                else usage = sample;
+            }
+            const heartbeat: BuilderHeartbeat = { job_id, usage };
+            if (timeout_file && fs.existsSync(timeout_file)) {
+                const timeout = Number(fs.readFileSync(timeout_file, "utf-8").trim());
+                if (Number.isInteger(timeout) && timeout > 0) heartbeat.timeout = timeout;
+            }
+            await this.broker.emit<BuilderHeartbeat>("builder.heartbeat", heartbeat, ["coordinator"]);
+        } catch (err) {
+            this.chaoticLogger.warn(`Failed to send a heartbeat for slot ${slot.index}:`, err);
+        } finally {
+            if (slot.probing === job_id) slot.probing = null;
+        }
+    }
+
+    /**
+     * Tells the coordinator that the job of a slot entered another phase, or made progress in it. The resource usage of
+     * the container is included while it is running.
+     * @param slot The slot running the job
+     * @param phase The phase of the job
+     * @param done The number of files uploaded so far, while uploading
+     * @param total The number of files to upload, while uploading
+     * @private
+     */
+    private async reportPhase(slot: BuildSlot, phase: BuildPhase, done?: number, total?: number): Promise<void> {
+        if (!slot.job_id) return;
+        const event: BuilderPhaseEvent = { job_id: slot.job_id, phase, timestamp: Date.now(), done, total };
+        try {
+            if (slot.container) {
+                const [err, usage] = await to(this.containerManager.getUsage(slot.container));
+                if (!err) event.usage = usage;
+            }
+            await this.broker.emit<BuilderPhaseEvent>("builder.phase", event, ["coordinator"]);
+        } catch (err) {
+            this.chaoticLogger.warn(`Failed to report the ${phase} phase of slot ${slot.index}:`, err);
+        }
+    }
+
+    /**
+     * Returns the IDs of the jobs running in the slots of this node.
+     * @private
+     */
+    private getRunningJobs(): string[] {
+        return this.slots.flatMap((slot) => (slot.mutex.isLocked() && slot.job_id ? [slot.job_id] : []));
+    }
+
+    /**
+     * Cancels the build running in the given slot, waiting for the slot to become free.
+     * @param slot The slot to cancel
+     * @private
+     */
+    private async cancelSlot(slot: BuildSlot): Promise<void> {
+        if (!slot.cancelled) {
+            slot.cancelled = true;
+            if (!slot.mutex.isLocked()) return;
+            if (slot.container) {
+                this.containerManager.kill(slot.container).catch((e) => {
                     this.chaoticLogger.error(e);
                 });
-            } else if (this.sshClient) {
+            } else if (slot.transport) {
                 try {
-                    this.sshClient.end();
+                    slot.transport.abort();
                 } catch (error) {
                     this.chaoticLogger.error(error);
                 }
             }
         }
-        await this.mutex.waitForUnlock();
+        await slot.mutex.waitForUnlock();
+    }
+
+    /**
+     * Determines the resources this node advertises to the coordinator. Configured limits take precedence over the
+     * resources of the host, as they apply to every build container.
+     * @returns The resources of this node, RAM and disk space in MiB
+     * @private
+     */
+    private getResources(): BuilderResources {
+        let disk: number | undefined;
+        try {
+            const stats = fs.statfsSync(this.mountShared);
+            disk = Math.floor((stats.bavail * stats.bsize) / 1024 / 1024);
+        } catch (err) {
+            this.chaoticLogger.warn(`Failed to determine the free disk space of ${this.mountShared}:`, err);
+        }
+        return {
+            cpus: this.builder.cpu_limit ?? os.availableParallelism(),
+            disk,
+            ram: this.builder.ram_limit ?? Math.floor(os.totalmem() / 1024 / 1024),
+        };
+    }
+
+    /**
+     * Advertises the current resources and drain state of this node to the other nodes, as builds change the free disk
+     * space.
+     * @private
+     */
+    private updateMetadata(): void {
+        this.broker.metadata.resources = this.getResources();
+        this.broker.metadata.drained = this.drained;
+        this.broker.registry.regenerateLocalRawInfo(true);
+        this.broker.registry.discoverer.sendLocalNodeInfo().catch((err) => {
+            this.chaoticLogger.error("Failed to advertise the metadata of this node:", err);
+        });
+    }
+
+    /**
+     * Removes staged packages of jobs that have not been retried in time, also for no longer existing packages.
+     * @private
+     */
+    private clearStaging(): void {
+        const now = new Date().getTime();
+        // Staging directories are nested as target_repo/arch/pkgbase/timestamp
+        const walk = (dir: string, depth: number): void => {
+            for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+                if (!entry.isDirectory()) continue;
+                const entryPath = path.join(dir, entry.name);
+                if (depth > 0) {
+                    walk(entryPath, depth - 1);
+                    if (fs.readdirSync(entryPath).length === 0) fs.rmdirSync(entryPath);
+                } else if (now - fs.statSync(entryPath).mtime.getTime() > STAGING_MAX_LIFETIME) {
+                    fs.rmSync(entryPath, { recursive: true, force: true });
+                }
+            }
+        };
+
+        try {
+            if (fs.existsSync(this.mountStaging)) walk(this.mountStaging, 3);
+        } catch (err) {
+            this.chaoticLogger.error(`Failed to clean staging directory ${this.mountStaging}:`, err);
+        }
+    }
+
+    /**
+     * Reads the packages staged by a previous attempt of a job.
+     * @param staging_dir The staging directory of the job
+     * @returns The namcap analysis and the names of the staged packages, which are empty if nothing was staged
+     * @private
+     */
+    private getStagedPackages(staging_dir: string): [string, string[]] {
+        if (!fs.existsSync(staging_dir)) return ["", []];
+        const namcapPath = path.join(staging_dir, ".namcap");
+        return [
+            fs.existsSync(namcapPath) ? fs.readFileSync(namcapPath, { encoding: "utf-8" }) : "",
+            fs.readdirSync(staging_dir).filter((file) => !file.startsWith(".")),
+        ];
     }
 
     /**
@@ -514,8 +929,12 @@ export class BuilderService extends Service {
 
     async stop(): Promise<void> {
         this.active = false;
-        if (!this.cancelled) this.cancelledCode = BuildStatus.CANCELED_REQUEUE;
-        await this.cancelBuild();
+        await Promise.all(
+            this.slots.map((slot) => {
+                if (!slot.cancelled) slot.cancelledCode = BuildStatus.CANCELED_REQUEUE;
+                return this.cancelSlot(slot);
+            }),
+        );
         this.containerManager.destroy();
     }
 
@@ -2,34 +2,84 @@ import { Mutex } from "async-mutex";
 import { DepGraph } from "dependency-graph";
 import type Redis from "ioredis";
 import { type Context, type Logger, Service, type ServiceBroker } from "moleculer";
+import { BuildHistory } from "../build-history";
+import { loadSettings } from "../config";
+import { DurationEstimator } from "../duration-estimator";
+import { FairShare } from "../fair-share";
 import { BuildsRedisLogger } from "../logging";
 import type { RedisConnectionManager } from "../redis-connection-manager";
 import { type Repo, RepoManager, type TargetRepo } from "../repo-manager";
 import {
     type BuildClass,
+    type BuilderHeartbeat,
+    type BuilderPhaseEvent,
+    type BuilderResources,
+    type BuildProgress,
     type Builder_Action_BuildPackage_Params,
+    type Builder_Action_CancelBuild_Params,
     BuildStatus,
     type BuildStatusReturn,
     type Coordinator_Action_AddJobsToQueue_Params,
     type Coordinator_Action_AutoRepoRemove_Params,
+    type Coordinator_Action_CancelJob_Params,
+    type Coordinator_Action_CancelJob_Response,
+    type Coordinator_Action_DryRunJobs_Response,
+    type Coordinator_Action_GetHistory_Params,
+    type Coordinator_Action_GetHistory_Response,
+    type Coordinator_Action_Pause_Params,
+    type Coordinator_Action_Pause_Response,
+    type Coordinator_Action_PackageMetaData_List,
+    type Coordinator_Action_PackageMetaData_Single,
+    type Coordinator_Action_RebuildDependents_Params,
+    type Coordinator_Action_RebuildDependents_Response,
+    type Coordinator_Action_ReloadRepos_Response,
     CoordinatorJob,
     CoordinatorJobSavable,
     current_version,
     type Database_Action_AutoRepoRemove_Params,
     type Database_Action_fetchUploadInfo_Response,
+    type Database_Action_GetRepoPackages_Params,
+    type Database_RepoPackage,
     type DatabaseRemoveStatusReturn,
     type DeploymentNotificationParams,
     type GenericNotificationParams,
+    HEARTBEAT_TIMEOUT,
+    JOB_DEADLINE_SLACK,
+    type LabelSelector,
     MAX_SHUTDOWN_TIME,
     type MetricsCounterLabels,
     type MetricsGaugeContext,
+    type MetricsTenantContext,
+    type PausedScopes,
+    type RemoteSettings,
+    type ResourceRequirements,
+    type RetryPolicy,
+    type TenantKind,
+    type TenantQueueStats,
 } from "../types";
-import { currentTime, getLogUrl, getPureNodeName, isValidPkgbase } from "../utils";
+import { currentTime, describePhase, getLogUrl, getPureNodeName, globToRegExp, isValidPkgbase } from "../utils";
 import { MoleculerConfigCommonService } from "./moleculer.config";
 
 export class CoordinatorTrackedJob extends CoordinatorJob {
     replacement?: CoordinatorTrackedJob;
     node?: string;
+    cancel_reason?: string;
+    // Retry state is not persisted, restored jobs start over with their first attempt
+    attempt = 1;
+    not_before?: number;
+    // Names of the nodes previous attempts failed on
+    avoid_nodes: string[] = [];
+    // Name of the node that staged the packages of a previous attempt, which only failed to deploy them
+    resume_on?: string;
+    // Time the job was assigned to its node, used to estimate when it finishes
+    started?: number;
+    // The watchdog gives up on the job once it runs past its deadline or its node stops sending heartbeats for it
+    deadline?: number;
+    last_heartbeat?: number;
+    // Latest phase reported by the node running the job
+    progress?: BuildProgress;
+    // Resolves the running job as stalled, even if its node never answers
+    abandon?: () => void;
 
     constructor(
         pkgbase: string,
@@ -43,6 +93,9 @@ export class CoordinatorTrackedJob extends CoordinatorJob {
         timestamp: number,
         public logger: BuildsRedisLogger,
         arch_mirror: string | undefined,
+        priority = 0,
+        requirements: ResourceRequirements = {},
+        label_selector: LabelSelector = {},
     ) {
         super(
             pkgbase,
@@ -55,6 +108,9 @@ export class CoordinatorTrackedJob extends CoordinatorJob {
             commit,
             timestamp,
             arch_mirror,
+            priority,
+            requirements,
+            label_selector,
         );
         this.node = undefined;
     }
@@ -71,6 +127,9 @@ export class CoordinatorTrackedJob extends CoordinatorJob {
             this.dependencies,
             this.commit,
             this.arch_mirror,
+            this.priority,
+            this.requirements,
+            this.label_selector,
         );
     }
 }
@@ -88,14 +147,135 @@ function toTracked(job: CoordinatorJobSavable, timestamp: number, logger: Builds
         timestamp,
         logger,
         job.arch_mirror,
+        // Queues saved before priorities were introduced lack this value
+        job.priority ?? 0,
+        job.requirements ?? {},
+        job.label_selector ?? {},
     );
 }
 
+/**
+ * Returns the identifier of a job inside the dependency graph.
+ * @param job The job to get the identifier for.
+ * @returns The graph identifier of the job.
+ */
+function toGraphIdent(job: CoordinatorJobSavable): string {
+    return `${job.target_repo}/${job.pkgbase}`;
+}
+
+/**
+ * Checks whether a builder node may build the given job, judging by its build class only.
+ * @param job The job to check.
+ * @param builder_class The builder class of the node.
+ * @param node_name The name of the node, which jobs may be assigned to explicitly.
+ * @returns True if the node may build the job, false otherwise.
+ */
+function matchesBuildClass(job: CoordinatorJobSavable, builder_class: number, node_name: string): boolean {
+    if (typeof job.build_class === "number") return builder_class !== null && job.build_class <= builder_class;
+    return typeof job.build_class === "string" && job.build_class === node_name;
+}
+
+/**
+ * Checks whether a builder node provides the resources a job requires. Nodes that could not determine their free
+ * disk space do not match jobs requiring disk space.
+ * @param job The job to check.
+ * @param resources The resources advertised by the node.
+ * @returns True if the node provides all required resources, false otherwise.
+ */
+function matchesRequirements(job: CoordinatorJobSavable, resources: BuilderResources): boolean {
+    const { cpus, disk, ram } = job.requirements;
+    return (
+        (cpus === undefined || cpus <= resources.cpus) &&
+        (ram === undefined || ram <= resources.ram) &&
+        (disk === undefined || (resources.disk !== undefined && disk <= resources.disk))
+    );
+}
+
+/**
+ * Checks whether the labels of a builder node satisfy the label selector of a job.
+ * @param job The job to check.
+ * @param labels The labels of the node.
+ * @returns True if the node has all included and none of the excluded labels, false otherwise.
+ */
+function matchesLabels(job: CoordinatorJobSavable, labels: string[]): boolean {
+    const { include = [], exclude = [] } = job.label_selector;
+    return include.every((label) => labels.includes(label)) && !exclude.some((label) => labels.includes(label));
+}
+
+/**
+ * Checks whether a builder node may build the given job, judging by its build class, resources and labels.
+ * @param job The job to check.
+ * @param node The builder node, as listed by $node.list.
+ * @param resources The resources to match against, all resources advertised by the node by default.
+ * @returns True if the node may build the job, false otherwise.
+ */
+function matchesNode(
+    job: CoordinatorJobSavable,
+    node: any,
+    resources: BuilderResources = node.metadata.resources as BuilderResources,
+): boolean {
+    return (
+        matchesBuildClass(job, node.metadata.build_class as number, getPureNodeName(node.id)) &&
+        matchesRequirements(job, resources) &&
+        // Nodes of the same version might predate labels
+        matchesLabels(job, (node.metadata.labels as string[] | undefined) ?? [])
+    );
+}
+
+/**
+ * Finds all dependency cycles in the given graph using Tarjan's strongly connected components algorithm.
+ * @param graph The dependency graph to search.
+ * @returns A list of cycles, each containing the graph identifiers of its members.
+ */
+function findCycles<T>(graph: DepGraph<T>): string[][] {
+    const cycles: string[][] = [];
+    const indices = new Map<string, number>();
+    const lowlinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let index = 0;
+
+    const connect = (node: string): void => {
+        indices.set(node, index);
+        lowlinks.set(node, index);
+        index++;
+        stack.push(node);
+        onStack.add(node);
+
+        for (const dep of graph.directDependenciesOf(node)) {
+            if (!indices.has(dep)) {
+                connect(dep);
+                lowlinks.set(node, Math.min(lowlinks.get(node)!, lowlinks.get(dep)!));
+            } else if (onStack.has(dep)) {
+                lowlinks.set(node, Math.min(lowlinks.get(node)!, indices.get(dep)!));
+            }
+        }
+
+        if (lowlinks.get(node) === indices.get(node)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+
+            if (component.length > 1 || graph.directDependenciesOf(node).includes(node)) cycles.push(component);
+        }
+    };
+
+    for (const node of graph.overallOrder()) {
+        if (!indices.has(node)) connect(node);
+    }
+
+    return cycles;
+}
+
 export interface TrackedJobs {
     [key: string]: CoordinatorTrackedJob;
 }
 
-export type JobStatus = "active" | "queued";
+export type JobStatus = "active" | "paused" | "queued";
 
 export interface QueuedJob {
     buildClass: BuildClass;
@@ -103,6 +283,11 @@ export interface QueuedJob {
     node?: string;
     status: JobStatus;
     liveLogUrl?: string;
+    priority: number;
+    timestamp: number;
+    // Estimated time the job finishes at, missing if nothing was learned about build durations yet
+    eta?: number;
+    progress?: BuildProgress;
 }
 
 export type QueueStatus = QueuedJob[];
@@ -111,16 +296,22 @@ export type QueueStatus = QueuedJob[];
  * The coordinator service is responsible for managing the build queue and assigning jobs to the builder nodes.
  */
 export class CoordinatorService extends Service {
-    private base_logs_url = process.env.LOGS_URL;
-    private package_repos = process.env.PACKAGE_REPOS;
-    private package_target_repos = process.env.PACKAGE_TARGET_REPOS;
-    private package_repos_notifiers = process.env.PACKAGE_REPOS_NOTIFIERS;
-    private builder_image =
-        process.env.BUILDER_IMAGE || "registry.gitlab.com/garuda-linux/tools/chaotic-manager/builder:latest";
+    private base_logs_url: string | undefined;
+    private builder_image: string;
 
     private queue: TrackedJobs = {};
-    private readonly repo_manager: RepoManager;
-    private busy_nodes: TrackedJobs = {};
+    private paused: PausedScopes = { arch: [], source_repo: [], target_repo: [] };
+    private repo_manager: RepoManager;
+    // Jobs running on the builder nodes, keyed by node ID and job ID
+    private busy_nodes: Record<string, TrackedJobs> = {};
+    // Number of build slots per node still occupied by abandoned jobs, keyed by node ID
+    private stalled_slots: Record<string, number> = {};
+    private watchdog: NodeJS.Timeout | null = null;
+    private build_history: BuildHistory;
+    private duration_estimator: DurationEstimator;
+    // Turns of the source and target repositories sharing the builders
+    private source_shares: FairShare = new FairShare((repo) => this.repo_manager.repos[repo]?.share ?? 1);
+    private target_shares: FairShare = new FairShare((repo) => this.repo_manager.target_repos[repo]?.share ?? 1);
     private mutex: Mutex = new Mutex();
     private chaoticLogger: Logger = this.broker.getLogger("CHAOTIC");
 
@@ -130,14 +321,20 @@ export class CoordinatorService extends Service {
     constructor(
         broker: ServiceBroker,
         private redis_connection_manager: RedisConnectionManager,
+        settings: RemoteSettings,
+        private config_path: string | undefined,
     ) {
         super(broker);
 
+        this.base_logs_url = settings.logs_url;
+        this.builder_image = settings.builder.image;
         this.repo_manager = new RepoManager(
             this.base_logs_url ? new URL(this.base_logs_url) : undefined,
             this.chaoticLogger,
         );
-        this.initRepoManager(this.repo_manager);
+        this.initRepoManager(this.repo_manager, settings);
+        this.build_history = new BuildHistory(redis_connection_manager.getClient());
+        this.duration_estimator = new DurationEstimator(redis_connection_manager.getClient());
 
         this.parseServiceSchema({
             name: "coordinator",
@@ -145,18 +342,37 @@ export class CoordinatorService extends Service {
             actions: {
                 addJobsToQueue: this.addJobsToQueue,
                 autoRepoRemove: this.autoRepoRemove,
+                cancelJob: this.cancelJob,
+                dryRunJobs: this.dryRunJobs,
                 getAvailableNodes: this.getAvailableNodes,
+                getDrainedNodes: this.getDrainedNodes,
                 getCurrentQueue: this.getQueue,
+                getHistory: this.getHistory,
                 getQueue: this.getQueue,
+                getTenantStats: this.getTenantStats,
                 jobExists: this.jobExists,
+                pause: this.pause,
+                rebuildDependents: this.rebuildDependents,
+                reloadRepos: this.reloadRepos,
+                resume: this.resume,
             },
             events: {
                 "$node.connected": {
                     handler: this.assignJobs,
                 },
+                // Builder nodes advertise changes like being undrained via their metadata
+                "$node.updated": {
+                    handler: this.assignJobs,
+                },
                 "$broker.started": {
                     handler: this.start,
                 },
+                "builder.heartbeat": {
+                    handler: this.onHeartbeat,
+                },
+                "builder.phase": {
+                    handler: this.onPhase,
+                },
             },
             ...MoleculerConfigCommonService,
         });
@@ -199,10 +415,13 @@ export class CoordinatorService extends Service {
         };
 
         const notificationPromises: Promise<any>[] = [];
+        let result: BuildStatusReturn | undefined;
+        let retrying = false;
 
         promise
             .then(
                 async (ret: BuildStatusReturn) => {
+                    result = ret;
                     metricsParams.duration = ret.duration;
 
                     // Special logic, don't be needlessly noisy and prevent other logic
@@ -217,6 +436,17 @@ export class CoordinatorService extends Service {
                         );
                         return;
                     }
+                    if (this.scheduleRetry(job, ret.success, node_id)) {
+                        retrying = true;
+                        metricsParams.status = ret.success;
+                        notificationPromises.push(
+                            source_repo.notify(job, "pending", `Build failed, retrying (attempt ${job.attempt + 1}).`),
+                        );
+                        notificationPromises.push(
+                            this.broker.broadcast<MetricsCounterLabels>("builds.retry", metricsParams),
+                        );
+                        return;
+                    }
                     switch (ret.success) {
                         case BuildStatus.ALREADY_BUILT: {
                             void source_repo.notify(
@@ -251,6 +481,15 @@ export class CoordinatorService extends Service {
                             metricsParams.status = BuildStatus.SUCCESS;
                             metricsParams.namcapAnalysis = ret.namcapAnalysis;
 
+                            // The builder reports durations in minutes
+                            if (ret.duration !== undefined) {
+                                this.duration_estimator
+                                    .record(job.pkgbase, getPureNodeName(node_id), ret.duration * 60 * 1000)
+                                    .catch((err) => {
+                                        this.chaoticLogger.error(`Failed to record duration of ${job.toId()}:`, err);
+                                    });
+                            }
+
                             notificationPromises.push(
                                 this.broker.call<void, DeploymentNotificationParams>(
                                     "notifier.notifyDeployment",
@@ -314,7 +553,13 @@ export class CoordinatorService extends Service {
                                 job.logger.log(`Job ${job.toId()} was canceled.`);
 
                                 metricsParams.replaced = false;
-                                notificationPromises.push(source_repo.notify(job, "canceled", "Build canceled."));
+                                notificationPromises.push(
+                                    source_repo.notify(
+                                        job,
+                                        "canceled",
+                                        job.cancel_reason ? `Build canceled: ${job.cancel_reason}` : "Build canceled.",
+                                    ),
+                                );
                                 notificationPromises.push(
                                     this.broker.broadcast<MetricsCounterLabels>("builds.canceled", metricsParams),
                                 );
@@ -322,6 +567,7 @@ export class CoordinatorService extends Service {
                             break;
                         }
                         case BuildStatus.CANCELED_REQUEUE: {
+                            metricsParams.status = BuildStatus.CANCELED_REQUEUE;
                             notificationPromises.push(
                                 source_repo.notify(job, "canceled", "Builder shutdown requested."),
                             );
@@ -334,6 +580,32 @@ export class CoordinatorService extends Service {
                             job.replacement = toTracked(new_job, job.timestamp, job.logger);
                             break;
                         }
+                        case BuildStatus.STALLED: {
+                            notificationPromises.push(
+                                source_repo.notify(job, "failed", "Build abandoned, the builder stopped responding."),
+                            );
+                            job.logger.log(`Job ${job.toId()} was abandoned by the watchdog of the coordinator.`);
+
+                            const notify_params: DeploymentNotificationParams = {
+                                commit: job.commit,
+                                event: `🧟 Build for ${job.target_repo} was abandoned, the builder stopped responding`,
+                                node: job.node,
+                                pkgbase: job.pkgbase,
+                                source_repo_url: source_repo.getUrl(),
+                                timestamp: job.timestamp,
+                            };
+                            notificationPromises.push(
+                                this.broker.call<void, DeploymentNotificationParams>(
+                                    "notifier.notifyDeployment",
+                                    notify_params,
+                                ),
+                            );
+                            metricsParams.status = BuildStatus.STALLED;
+                            notificationPromises.push(
+                                this.broker.broadcast<MetricsCounterLabels>("builds.stalled", metricsParams),
+                            );
+                            break;
+                        }
                         case BuildStatus.TIMED_OUT: {
                             notificationPromises.push(source_repo.notify(job, "failed", "Build timed out."));
                             job.logger.log(`Job ${job.toId()} reached a timeout during the build phase.`);
@@ -358,12 +630,69 @@ export class CoordinatorService extends Service {
                             );
                             break;
                         }
+                        case BuildStatus.UPLOAD_FAILED: {
+                            notificationPromises.push(
+                                source_repo.notify(job, "failed", "Build succeeded, but the upload failed."),
+                            );
+                            job.logger.log(`Job ${job.toId()} failed to upload the built packages.`);
+
+                            const notify_params: DeploymentNotificationParams = {
+                                commit: job.commit,
+                                event: `📡 Uploading to ${job.target_repo} failed`,
+                                node: job.node,
+                                pkgbase: job.pkgbase,
+                                source_repo_url: source_repo.getUrl(),
+                                timestamp: job.timestamp,
+                            };
+                            notificationPromises.push(
+                                this.broker.call<void, DeploymentNotificationParams>(
+                                    "notifier.notifyDeployment",
+                                    notify_params,
+                                ),
+                            );
+                            metricsParams.status = BuildStatus.UPLOAD_FAILED;
+                            notificationPromises.push(
+                                this.broker.broadcast<MetricsCounterLabels>("builds.uploadFailure", metricsParams),
+                            );
+                            break;
+                        }
+                        case BuildStatus.DATABASE_FAILED: {
+                            notificationPromises.push(
+                                source_repo.notify(
+                                    job,
+                                    "failed",
+                                    "Build succeeded, but adding it to the database failed.",
+                                ),
+                            );
+                            job.logger.log(`Job ${job.toId()} failed to add the built packages to the database.`);
+
+                            const notify_params: DeploymentNotificationParams = {
+                                commit: job.commit,
+                                event: `🗄️ Adding to the ${job.target_repo} database failed`,
+                                node: job.node,
+                                pkgbase: job.pkgbase,
+                                source_repo_url: source_repo.getUrl(),
+                                timestamp: job.timestamp,
+                            };
+                            notificationPromises.push(
+                                this.broker.call<void, DeploymentNotificationParams>(
+                                    "notifier.notifyDeployment",
+                                    notify_params,
+                                ),
+                            );
+                            metricsParams.status = BuildStatus.DATABASE_FAILED;
+                            notificationPromises.push(
+                                this.broker.broadcast<MetricsCounterLabels>("builds.databaseFailure", metricsParams),
+                            );
+                            break;
+                        }
                     }
                 },
                 (err: any) => {
                     if (err && (err.name === "NodeDisconnectedError" || err.name === "RequestTimeoutError" || err.name === "MoleculerRetryableError") && !job.replacement) {
                         this.chaoticLogger.warn(`Node ${node_id} disconnected or timed out. Re-queuing job ${job.pkgbase}.`);
                         metricsParams.replaced = true;
+                        metricsParams.status = BuildStatus.CANCELED_REQUEUE;
                         notificationPromises.push(
                             this.broker.broadcast<MetricsCounterLabels>("builds.canceled-requeue", metricsParams),
                         );
@@ -374,6 +703,18 @@ export class CoordinatorService extends Service {
                     }
 
                     this.chaoticLogger.error("Unexpected promise rejection during package deployment:", err);
+                    if (this.scheduleRetry(job, BuildStatus.SOFTWARE_FAILURE, node_id)) {
+                        retrying = true;
+                        metricsParams.status = BuildStatus.SOFTWARE_FAILURE;
+                        notificationPromises.push(
+                            source_repo.notify(job, "pending", `Build failed, retrying (attempt ${job.attempt + 1}).`),
+                        );
+                        notificationPromises.push(
+                            this.broker.broadcast<MetricsCounterLabels>("builds.retry", metricsParams),
+                        );
+                        return;
+                    }
+
                     notificationPromises.push(source_repo.notify(job, "failed", "Build failed."));
                     job.logger.log(`Job ${job?.toId()} failed`);
 
@@ -410,11 +751,36 @@ export class CoordinatorService extends Service {
 
                 this.chaoticLogger.info(`Job for ${job.pkgbase} finished on node ${node_id}.`);
 
-                void job.logger.end_log();
+                if (metricsParams.status !== undefined) {
+                    this.build_history
+                        .record({
+                            arch: job.arch,
+                            build_class: job.build_class,
+                            commit: job.commit,
+                            // The builder reports durations in minutes
+                            duration: result?.duration !== undefined ? result.duration * 60 * 1000 : undefined,
+                            finished: Date.now(),
+                            namcapAnalysis: result?.namcapAnalysis,
+                            node: getPureNodeName(node_id),
+                            packages: result?.packages,
+                            pkgbase: job.pkgbase,
+                            source_repo: job.source_repo,
+                            status: metricsParams.status,
+                            target_repo: job.target_repo,
+                            timestamp: job.timestamp,
+                        })
+                        .catch((err) => {
+                            this.chaoticLogger.error(`Failed to record build history of ${job.toId()}:`, err);
+                        });
+                }
+
+                // Retries append to the same log, so followers should keep following it
+                if (!retrying) void job.logger.end_log();
                 const job_id = job.toId();
                 if (job.replacement) this.queue[job_id] = job.replacement;
                 else delete this.queue[job_id];
-                delete this.busy_nodes[node_id];
+                delete this.busy_nodes[node_id][job_id];
+                if (Object.keys(this.busy_nodes[node_id]).length === 0) delete this.busy_nodes[node_id];
                 if (this.drainedNotifier && Object.keys(this.busy_nodes).length === 0) {
                     this.drainedNotifier();
                 }
@@ -423,9 +789,145 @@ export class CoordinatorService extends Service {
     }
 
     /**
-     * Assigns jobs to the available builder nodes.
+     * Lets the watchdog abandon a running job, resolving it as stalled even if its node never answers. The build slot
+     * stays occupied until the node does, as the build might still be running on it.
+     * @param promise The promise returned by the buildPackage action of the node.
+     * @param job The running job.
+     * @param node_id The ID of the node running the job.
+     * @returns A promise that resolves to the build status, or to STALLED once the job was abandoned.
+     * @private
+     */
+    private superviseJob(
+        promise: Promise<BuildStatusReturn>,
+        job: CoordinatorTrackedJob,
+        node_id: string,
+    ): Promise<BuildStatusReturn> {
+        return new Promise((resolve, reject) => {
+            job.abandon = () => {
+                job.abandon = undefined;
+                this.stalled_slots[node_id] = (this.stalled_slots[node_id] ?? 0) + 1;
+                promise
+                    .catch(() => undefined)
+                    .finally(() => {
+                        if (--this.stalled_slots[node_id] === 0) delete this.stalled_slots[node_id];
+                        void this.assignJobs();
+                    });
+                resolve({ success: BuildStatus.STALLED });
+            };
+            promise.then(resolve, reject).finally(() => {
+                job.abandon = undefined;
+            });
+        });
+    }
+
+    /**
+     * Records a heartbeat of a running job, sent periodically by the node running it. Heartbeats reporting the timeout
+     * of the build move its deadline, as packages may extend the timeout of the node.
+     * @param ctx The Moleculer context object.
+     */
+    onHeartbeat(ctx: Context<BuilderHeartbeat>): void {
+        const job: CoordinatorTrackedJob | undefined = this.busy_nodes[ctx.nodeID!]?.[ctx.params.job_id];
+        if (!job) return;
+        job.last_heartbeat = Date.now();
+        if (ctx.params.timeout !== undefined) {
+            job.deadline = job.started! + ctx.params.timeout * 1000 + JOB_DEADLINE_SLACK;
+        }
+        if (job.progress && ctx.params.usage) job.progress.usage = ctx.params.usage;
+    }
+
+    /**
+     * Records the phase a running job entered, or its progress in it, and shows it in the commit status of the job.
+     * Events may arrive out of order, so ones older than the recorded phase are ignored.
+     * @param ctx The Moleculer context object.
+     */
+    onPhase(ctx: Context<BuilderPhaseEvent>): void {
+        const job: CoordinatorTrackedJob | undefined = this.busy_nodes[ctx.nodeID!]?.[ctx.params.job_id];
+        if (!job || (job.progress && job.progress.timestamp > ctx.params.timestamp)) return;
+
+        const { phase, timestamp, done, total, usage } = ctx.params;
+        const progress: BuildProgress = { phase, timestamp, done, total, usage };
+        const previous: string | undefined = job.progress ? describePhase(job.progress) : undefined;
+        job.progress = progress;
+        job.last_heartbeat = Date.now();
+
+        const description: string = describePhase(progress);
+        if (description !== previous) void this.repo_manager.notify(job, "running", description);
+    }
+
+    /**
+     * Abandons running jobs that exceeded their deadline or whose node stopped sending heartbeats for them, e.g.
+     * because the container engine of the node wedged. Their node is asked to cancel them, in case it still responds.
+     * @private
+     */
+    private checkStalledJobs(): void {
+        const now: number = Date.now();
+        for (const [node_id, jobs] of Object.entries(this.busy_nodes)) {
+            for (const job of Object.values(jobs)) {
+                if (!job.abandon) continue;
+
+                let reason: string;
+                if (now > job.deadline!) reason = "exceeded its deadline";
+                else if (now - (job.last_heartbeat ?? job.started!) > HEARTBEAT_TIMEOUT) reason = "sent no heartbeats";
+                else continue;
+
+                this.chaoticLogger.warn(`Job ${job.toId()} on node ${node_id} ${reason}, abandoning it.`);
+                job.logger.log(`Job ${job.toId()} ${reason}, abandoning it at ${currentTime()}.`);
+                this.broker
+                    .call<void, Builder_Action_CancelBuild_Params>(
+                        "builder.cancelBuild",
+                        { job_id: job.toId() },
+                        { nodeID: node_id },
+                    )
+                    .catch((err) => {
+                        this.chaoticLogger.error(`Failed to cancel stalled build ${job.toId()}:`, err);
+                    });
+                job.abandon();
+            }
+        }
+    }
+
+    /**
+     * Schedules another attempt of a failed job if the retry policy of its target repository allows it.
+     * The attempt keeps the timestamp of the job, so it appends to the same log, and prefers a different node.
+     * @param job The job that failed.
+     * @param status The status the job failed with.
+     * @param node_id The ID of the node the job failed on.
+     * @returns True if the job is going to be retried, false otherwise.
+     * @private
+     */
+    private scheduleRetry(job: CoordinatorTrackedJob, status: BuildStatus, node_id: string): boolean {
+        // Canceled jobs are not wanted anymore, even if they failed in a retryable way before being canceled
+        if (!this.active || job.replacement || job.cancel_reason !== undefined) return false;
+        const policy: RetryPolicy = this.repo_manager.getTargetRepo(job.target_repo).retry;
+        if (!policy.statuses.includes(status) || job.attempt >= policy.max_attempts) return false;
+
+        const delay: number = policy.backoff * 1000 * 2 ** (job.attempt - 1);
+        const retry: CoordinatorTrackedJob = toTracked(job.toSavable(), job.timestamp, job.logger);
+        retry.attempt = job.attempt + 1;
+        retry.not_before = Date.now() + delay;
+        // The packages were built fine, so only their deployment is retried on the node that staged them
+        if (status === BuildStatus.UPLOAD_FAILED || status === BuildStatus.DATABASE_FAILED) {
+            retry.avoid_nodes = job.avoid_nodes;
+            retry.resume_on = getPureNodeName(node_id);
+        } else {
+            retry.avoid_nodes = [...job.avoid_nodes, getPureNodeName(node_id)];
+        }
+        job.replacement = retry;
+
+        job.logger.log(
+            `Job ${job.toId()} failed with status ${BuildStatus[status]}, retrying in ${delay / 1000} seconds (attempt ${retry.attempt} of ${policy.max_attempts}).`,
+        );
+        // Nothing else might trigger an assignment once the backoff has passed
+        setTimeout(() => void this.assignJobs(), delay).unref();
+        return true;
+    }
+
+    /**
+     * Assigns jobs to the free build slots of the builder nodes.
      * This includes fetching the list of available builder nodes, generating a dependency graph of the jobs,
-     * and assigning jobs to the nodes based on their build class.
+     * and assigning jobs to the nodes based on their build class. Within the same priority, the source and target
+     * repositories take turns according to their shares. Faster nodes pick first and prefer long jobs, while slower
+     * nodes prefer short ones, according to the learned build durations.
      * @private
      */
     private async assignJobs(): Promise<void> {
@@ -433,25 +935,69 @@ export class CoordinatorService extends Service {
         await this.mutex
             .runExclusive(async () => {
                 // Fetch the list of available builder nodes
-                const available_nodes: any[] = await this.getAvailableNodes();
+                const builder_nodes: any[] = await this.getBuilderNodes();
+                const available_nodes: any[] = builder_nodes
+                    .filter((node) => this.getFreeSlots(node) > 0)
+                    .sort((a, b) => this.getSpeedFactor(a) - this.getSpeedFactor(b));
 
                 if (available_nodes.length == 0) {
                     return;
                 }
 
                 const graph: DepGraph<CoordinatorTrackedJob> = this.constructDependencyGraph(this.queue);
+                const queued: CoordinatorTrackedJob[] = Object.values(this.queue).filter((job) => !job.node);
+                this.source_shares.update(new Set(queued.map((job) => job.source_repo)));
+                this.target_shares.update(new Set(queued.map((job) => job.target_repo)));
+                // Resumable retries only wait for the node holding their packages while it is connected and not drained,
+                // as it would never take them otherwise. They are built again from scratch instead.
+                for (const job of queued) {
+                    if (
+                        job.resume_on !== undefined &&
+                        !builder_nodes.some(
+                            (node) => getPureNodeName(node.id) === job.resume_on && !node.metadata.drained,
+                        )
+                    ) {
+                        job.resume_on = undefined;
+                    }
+                }
                 const upload_info: Database_Action_fetchUploadInfo_Response = await this.getUploadInfo();
+                // Nodes at least as fast as the median of all connected nodes are considered fast
+                const speed_factors: number[] = builder_nodes
+                    .map((node) => this.getSpeedFactor(node))
+                    .sort((a, b) => a - b);
+                const median_speed_factor: number = speed_factors[Math.floor((speed_factors.length - 1) / 2)];
+
+                // One entry per free build slot, taking turns between the nodes so that jobs are spread across them
+                const free_slots: any[] = [];
+                const max_free_slots: number = Math.max(...available_nodes.map((node) => this.getFreeSlots(node)));
+                for (let slot = 0; slot < max_free_slots; slot++) {
+                    free_slots.push(...available_nodes.filter((node) => this.getFreeSlots(node) > slot));
+                }
 
-                for (const node of available_nodes) {
+                for (const node of free_slots) {
+                    const node_name: string = getPureNodeName(node.id);
                     const jobs: CoordinatorTrackedJob[] = this.getPossibleJobs(
                         graph,
-                        node.metadata.build_class as number,
-                        getPureNodeName(node.id),
+                        node,
+                        this.getSpeedFactor(node) <= median_speed_factor,
                     );
                     if (jobs.length == 0) {
                         continue;
                     }
-                    const job: CoordinatorTrackedJob | undefined = jobs.shift();
+                    // Retries avoid the nodes their previous attempts failed on, unless no other idle node can take them.
+                    // Resumable retries wait for the node holding their packages.
+                    const job: CoordinatorTrackedJob | undefined = jobs.find((candidate) =>
+                        candidate.resume_on !== undefined
+                            ? candidate.resume_on === node_name
+                            : !candidate.avoid_nodes.includes(node_name) ||
+                              !available_nodes.some(
+                                  (other) =>
+                                      other !== node &&
+                                      this.getFreeSlots(other) > 0 &&
+                                      !candidate.avoid_nodes.includes(getPureNodeName(other.id)) &&
+                                      matchesNode(candidate, other),
+                              ),
+                    );
                     if (!job) {
                         continue;
                     }
@@ -464,6 +1010,7 @@ export class CoordinatorService extends Service {
                         commit: job.commit,
                         extra_keyrings: target_repo.keyringsToBashArray(),
                         extra_repos: target_repo.repoToString(),
+                        job_id: job.toId(),
                         pkgbase: job.pkgbase,
                         source_repo: job.source_repo,
                         source_repo_url: source_repo.getUrl(),
@@ -471,10 +1018,15 @@ export class CoordinatorService extends Service {
                         timestamp: job.timestamp,
                         upload_info,
                         arch_mirror: job.arch_mirror,
+                        resume_upload: job.resume_on === node_name,
                     };
 
                     job.node = node.id;
-                    this.busy_nodes[node.id] = job;
+                    job.started = Date.now();
+                    job.deadline = job.started + (node.metadata.timeout as number) * 1000 + JOB_DEADLINE_SLACK;
+                    this.source_shares.charge(job.source_repo);
+                    this.target_shares.charge(job.target_repo);
+                    (this.busy_nodes[node.id] ??= {})[job.toId()] = job;
 
                     this.chaoticLogger.info(
                         `Assigning job (${job.build_class}) for ${job.pkgbase} to node ${node.id} (${node.metadata.build_class})`,
@@ -487,7 +1039,7 @@ export class CoordinatorService extends Service {
                     >("builder.buildPackage", params, {
                         nodeID: node.id,
                     });
-                    this.onJobComplete(promise, job, source_repo, node.id);
+                    this.onJobComplete(this.superviseJob(promise, job, node.id), job, source_repo, node.id);
                 }
             })
             .finally(async () => {
@@ -501,36 +1053,102 @@ export class CoordinatorService extends Service {
      * @param ctx The Moleculer context object.
      */
     async addJobsToQueue(ctx: Context<Coordinator_Action_AddJobsToQueue_Params>): Promise<void> {
-        const timestamp: number = Date.now();
-        const data: Coordinator_Action_AddJobsToQueue_Params = ctx.params;
-        const jobs: CoordinatorTrackedJob[] = [];
+        this.enqueueJobs(this.createJobs(ctx.params, Date.now()));
+    }
 
-        const redis: Redis = this.redis_connection_manager.getClient();
+    /**
+     * Rebuilds every pkgbase of the target repository that depends on the given package, e.g. after a soname bump.
+     * The dependents are looked up in the repository database and queued with their pkgnames and dependencies, so
+     * they are built after the package itself if it is queued as well.
+     * @param ctx The Moleculer context object.
+     * @returns The pkgbase providing the package and the IDs of the queued dependents.
+     */
+    async rebuildDependents(
+        ctx: Context<Coordinator_Action_RebuildDependents_Params>,
+    ): Promise<Coordinator_Action_RebuildDependents_Response> {
+        const data: Coordinator_Action_RebuildDependents_Params = ctx.params;
+        const packages = await this.broker.call<Database_RepoPackage[], Database_Action_GetRepoPackages_Params>(
+            "database.getRepoPackages",
+            {
+                arch: data.arch,
+                builder_image: this.builder_image,
+                repo: data.target_repo,
+            },
+        );
 
-        for (const pkg of data.packages) {
-            if (!isValidPkgbase(pkg.pkgbase)) {
-                this.chaoticLogger.error(`Refusing to queue pkgbase: ${pkg.pkgbase}`);
-                continue;
-            }
-            const logger = new BuildsRedisLogger(redis, this.broker, "BUILD");
-            logger.from(pkg.pkgbase, timestamp);
-            jobs.push(
-                new CoordinatorTrackedJob(
-                    pkg.pkgbase,
-                    data.target_repo,
-                    data.source_repo,
-                    data.arch,
-                    pkg.build_class || 1,
-                    pkg.pkgnames,
-                    pkg.dependencies,
-                    data.commit,
-                    timestamp,
-                    logger,
-                    data.arch_mirror,
-                ),
-            );
+        const provider: Database_RepoPackage | undefined =
+            packages.find((pkg) => pkg.pkgname === data.pkgname) ??
+            packages.find((pkg) => pkg.provides.includes(data.pkgname));
+        if (!provider) {
+            throw new Error(`Package ${data.pkgname} was not found in ${data.target_repo} (${data.arch}).`);
         }
+        // Dependents may refer to the package by any name it provides, e.g. a soname like libfoo.so
+        const names: string[] = [provider.pkgname, ...provider.provides];
+
+        // Split packages share their pkgbase, so merge their metadata
+        const metadata: Record<string, Required<Coordinator_Action_PackageMetaData_Single>> = {};
+        for (const pkg of packages) {
+            const entry = (metadata[pkg.pkgbase] ??= {
+                build_class: null,
+                dependencies: [],
+                pkgbase: pkg.pkgbase,
+                pkgnames: [],
+                priority: data.priority ?? 0,
+                requirements: {},
+                label_selector: {},
+            });
+            entry.pkgnames.push(pkg.pkgname, ...pkg.provides);
+            entry.dependencies.push(...pkg.dependencies.filter((dep) => !entry.dependencies.includes(dep)));
+        }
+
+        // Without metadata, a queued build of the package itself could not be ordered before its dependents
+        const queued: CoordinatorTrackedJob | undefined =
+            this.queue[`${data.target_repo}/${data.arch}/${provider.pkgbase}`];
+        const pending: CoordinatorTrackedJob | undefined = queued?.node ? queued.replacement : queued;
+        if (pending && (!pending.pkgnames || !pending.dependencies)) {
+            pending.pkgnames = metadata[provider.pkgbase].pkgnames;
+            pending.dependencies = metadata[provider.pkgbase].dependencies;
+        }
+
+        const dependents: Coordinator_Action_PackageMetaData_List = Object.values(metadata)
+            .filter(
+                (entry) => entry.pkgbase !== provider.pkgbase && entry.dependencies.some((dep) => names.includes(dep)),
+            )
+            .map((entry) => ({
+                ...entry,
+                // Keep the build class of an already queued job, as the database does not know about it
+                build_class:
+                    this.queue[`${data.target_repo}/${data.arch}/${entry.pkgbase}`]?.build_class ?? entry.build_class,
+            }));
+
+        const jobs: CoordinatorTrackedJob[] = this.createJobs(
+            {
+                arch: data.arch,
+                arch_mirror: data.arch_mirror,
+                commit: data.commit,
+                packages: dependents,
+                source_repo: data.source_repo,
+                target_repo: data.target_repo,
+            },
+            Date.now(),
+        );
+        this.chaoticLogger.info(
+            `Rebuilding ${jobs.length} dependents of ${data.pkgname} (${provider.pkgbase}) in ${data.target_repo}.`,
+        );
+        this.enqueueJobs(jobs);
+
+        return {
+            pkgbase: provider.pkgbase,
+            queued: jobs.map((job) => job.toId()),
+        };
+    }
 
+    /**
+     * Adds the given jobs to the queue, replacing queued or running jobs with the same ID.
+     * @param jobs The jobs to add.
+     * @private
+     */
+    private enqueueJobs(jobs: CoordinatorTrackedJob[]): void {
         for (const job of jobs) {
             const log = new BuildsRedisLogger(this.redis_connection_manager.getClient(), this.broker, "BUILD");
             log.from(job.pkgbase, job.timestamp);
@@ -539,7 +1157,7 @@ export class CoordinatorService extends Service {
                 await log.setDefault();
                 log.log(`Added to build queue at ${currentTime()}. Waiting for builder...`);
                 // Notify the source repository that the job is pending
-                const source_repo: Repo = this.repo_manager.getRepo(data.source_repo);
+                const source_repo: Repo = this.repo_manager.getRepo(job.source_repo);
                 source_repo.notify(job, "pending", "Waiting for builder...");
             })();
 
@@ -549,7 +1167,13 @@ export class CoordinatorService extends Service {
             if (previous) {
                 // Is running
                 if (previous.node) {
-                    void ctx.call("builder.cancelBuild", undefined, { nodeID: previous.node }).catch((err) => {});
+                    void this.broker
+                        .call<void, Builder_Action_CancelBuild_Params>(
+                            "builder.cancelBuild",
+                            { job_id: id },
+                            { nodeID: previous.node },
+                        )
+                        .catch((err) => {});
                     previous.logger.log(
                         `Job cancellation requested at ${currentTime()}. Job is being replaced by newer build request.`,
                     );
@@ -577,6 +1201,170 @@ export class CoordinatorService extends Service {
         this.assignJobs();
     }
 
+    /**
+     * Creates tracked jobs for all valid packages of a scheduling request.
+     * @param data The scheduling request.
+     * @param timestamp The timestamp to assign to the jobs.
+     * @returns The created jobs.
+     * @private
+     */
+    private createJobs(data: Coordinator_Action_AddJobsToQueue_Params, timestamp: number): CoordinatorTrackedJob[] {
+        const jobs: CoordinatorTrackedJob[] = [];
+        const redis: Redis = this.redis_connection_manager.getClient();
+
+        for (const pkg of data.packages) {
+            if (!isValidPkgbase(pkg.pkgbase)) {
+                this.chaoticLogger.error(`Refusing to queue pkgbase: ${pkg.pkgbase}`);
+                continue;
+            }
+            const logger = new BuildsRedisLogger(redis, this.broker, "BUILD");
+            logger.from(pkg.pkgbase, timestamp);
+            jobs.push(
+                new CoordinatorTrackedJob(
+                    pkg.pkgbase,
+                    data.target_repo,
+                    data.source_repo,
+                    data.arch,
+                    pkg.build_class || 1,
+                    pkg.pkgnames,
+                    pkg.dependencies,
+                    data.commit,
+                    timestamp,
+                    logger,
+                    data.arch_mirror,
+                    pkg.priority ?? 0,
+                    pkg.requirements ?? {},
+                    pkg.label_selector ?? {},
+                ),
+            );
+        }
+
+        return jobs;
+    }
+
+    /**
+     * Previews what adding the given jobs to the queue would result in, without enqueuing anything.
+     * The jobs are merged into a copy of the current queue, which is then assigned wave by wave to the build slots of
+     * the currently connected builder nodes that are not drained, assuming every wave finishes before the next one
+     * starts. Currently running jobs are assumed to finish before the first wave.
+     * @param ctx The Moleculer context object.
+     * @returns The build waves, dependency cycles, unmatched and blocked jobs, as well as replaced running jobs.
+     */
+    async dryRunJobs(
+        ctx: Context<Coordinator_Action_AddJobsToQueue_Params>,
+    ): Promise<Coordinator_Action_DryRunJobs_Response> {
+        const jobs: CoordinatorTrackedJob[] = this.createJobs(ctx.params, Date.now());
+        const nodes: any[] = (await this.getBuilderNodes()).filter((node) => !node.metadata.drained);
+        const replacements: string[] = [];
+
+        // Work on copies, so the actual queue stays untouched
+        const simulated: TrackedJobs = {};
+        for (const [id, job] of Object.entries(this.queue)) {
+            // Running jobs are assumed to be finished, but their pending replacements are not
+            const pending: CoordinatorTrackedJob | undefined = job.node ? job.replacement : job;
+            if (pending) simulated[id] = toTracked(pending, pending.timestamp, pending.logger);
+        }
+        for (const job of jobs) {
+            const id = job.toId();
+            if (this.queue[id]?.node) replacements.push(id);
+            simulated[id] = job;
+        }
+
+        const graph: DepGraph<CoordinatorTrackedJob> = this.constructDependencyGraph(simulated);
+        const cycles: string[][] = findCycles(graph).map((cycle) =>
+            cycle.map((ident) => graph.getNodeData(ident).toId()),
+        );
+
+        const waves: Coordinator_Action_DryRunJobs_Response["waves"] = [];
+        for (;;) {
+            const wave: CoordinatorTrackedJob[] = [];
+            for (const node of nodes) {
+                for (let slot = 0; slot < (node.metadata.slots as number); slot++) {
+                    const job: CoordinatorTrackedJob | undefined = this.getPossibleJobs(graph, node)[0];
+                    if (!job) break;
+                    job.node = node.id;
+                    wave.push(job);
+                }
+            }
+            if (wave.length === 0) break;
+
+            waves.push(wave.map((job) => ({ job: job.toId(), node: getPureNodeName(job.node!) })));
+            for (const job of wave) graph.removeNode(toGraphIdent(job));
+        }
+
+        return {
+            waves,
+            cycles,
+            unmatched: jobs.filter((job) => !nodes.some((node) => matchesNode(job, node))).map((job) => job.toId()),
+            replacements,
+            blocked: graph.overallOrder().map((ident) => graph.getNodeData(ident).toId()),
+        };
+    }
+
+    /**
+     * Cancels all queued or running jobs matching the given job IDs or glob patterns.
+     * Queued jobs are removed right away, running jobs are canceled on the builder node executing them.
+     * @param ctx The Moleculer context object.
+     * @returns The IDs of the jobs that were canceled.
+     */
+    async cancelJob(ctx: Context<Coordinator_Action_CancelJob_Params>): Promise<Coordinator_Action_CancelJob_Response> {
+        const data: Coordinator_Action_CancelJob_Params = ctx.params;
+        const reason: string = data.reason || "Canceled on request.";
+        const patterns: RegExp[] = data.jobs.map(globToRegExp);
+        const canceled: string[] = [];
+
+        for (const [id, job] of Object.entries(this.queue)) {
+            if (!patterns.some((pattern) => pattern.test(id))) continue;
+            canceled.push(id);
+
+            // Is running
+            if (job.node) {
+                job.logger.log(`Job cancellation requested at ${currentTime()}. Reason: ${reason}`);
+                this.chaoticLogger.info(`Cancellation requested for currently running job ${id}. Reason: ${reason}`);
+                // Make sure neither a pending replacement nor the job itself gets requeued
+                job.replacement = undefined;
+                job.cancel_reason = reason;
+                void ctx
+                    .call<void, Builder_Action_CancelBuild_Params>(
+                        "builder.cancelBuild",
+                        { job_id: id },
+                        { nodeID: job.node },
+                    )
+                    .catch((err) => {
+                        this.chaoticLogger.error(`Failed to cancel build ${id}:`, err);
+                    });
+                // Not running
+            } else {
+                delete this.queue[id];
+                this.chaoticLogger.info(`Job ${id} canceled before execution. Reason: ${reason}`);
+                void (async () => {
+                    job.logger.log(`Job was canceled before execution. Reason: ${reason}`);
+                    await job.logger.end_log();
+                    const source_repo: Repo = this.repo_manager.getRepo(job.source_repo);
+                    await source_repo.notify(job, "canceled", `Build canceled: ${reason}`);
+                })().catch((err) => {
+                    this.chaoticLogger.error(`Failed to notify about canceled job ${id}:`, err);
+                });
+            }
+        }
+
+        await this.saveQueue();
+        await this.updateMetrics();
+
+        return { canceled };
+    }
+
+    /**
+     * Returns finished jobs from the build history, newest first.
+     * @param ctx The Moleculer context object.
+     * @returns The matching jobs and the cursor of the next page, if there may be more entries.
+     */
+    async getHistory(
+        ctx: Context<Coordinator_Action_GetHistory_Params>,
+    ): Promise<Coordinator_Action_GetHistory_Response> {
+        return await this.build_history.query(ctx.params);
+    }
+
     /**
      * Schedules a cleanup job for a repository, handling eventual outcomes.
      * @param ctx The Moleculer context object.
@@ -604,61 +1392,57 @@ export class CoordinatorService extends Service {
     }
 
     /**
-     * Initializes the repository manager with the given configuration.
-     * @param repo_manager The repository manager instance.
-     * @private
+     * Reloads the source and target repositories, as well as their notifiers, from the config file and the environment.
+     * The new configuration is swapped in at once, queued and running jobs keep going with their existing settings.
+     * @returns The names of the loaded source and target repositories.
+     * @throws Error if the new configuration is invalid or lacks repositories still referenced by queued jobs.
      */
-    private initRepoManager(repo_manager: RepoManager): void {
-        if (this.package_repos) {
-            try {
-                const obj = JSON.parse(this.package_repos);
-                repo_manager.repoFromObject(obj);
-            } catch (error) {
-                this.chaoticLogger.error(error);
-                throw new Error("Invalid package repos.");
+    async reloadRepos(): Promise<Coordinator_Action_ReloadRepos_Response> {
+        const settings: RemoteSettings = loadSettings(this.config_path, ["database"]);
+        const repo_manager = new RepoManager(
+            this.base_logs_url ? new URL(this.base_logs_url) : undefined,
+            this.chaoticLogger,
+        );
+        this.initRepoManager(repo_manager, settings);
+
+        // Holding the mutex ensures no job is assigned with a mix of old and new repository settings
+        return await this.mutex.runExclusive(() => {
+            const missing = new Set<string>();
+            for (const job of Object.values(this.queue)) {
+                for (const pending of [job, job.replacement]) {
+                    if (!pending) continue;
+                    if (!repo_manager.repos[pending.source_repo]) missing.add(pending.source_repo);
+                    if (!repo_manager.target_repos[pending.target_repo]) missing.add(pending.target_repo);
+                }
             }
-        }
-
-        if (!this.package_repos) {
-            repo_manager.repoFromObject({
-                "chaotic-aur": {
-                    url: "https://gitlab.com/chaotic-aur/pkgbuilds",
-                },
-            });
-        }
-
-        if (this.package_target_repos) {
-            try {
-                const obj = JSON.parse(this.package_target_repos);
-                repo_manager.targetRepoFromObject(obj);
-            } catch (error) {
-                this.chaoticLogger.error(error);
-                throw new Error("Invalid package repos.");
+            if (missing.size > 0) {
+                throw new Error(
+                    `Refusing to reload repositories, still referenced by queued jobs: ${[...missing].join(", ")}`,
+                );
             }
-        }
 
-        if (!this.package_target_repos) {
-            repo_manager.targetRepoFromObject({
-                "chaotic-aur": {
-                    extra_repos: [
-                        {
-                            name: "chaotic-aur",
-                            servers: ["https://builds.garudalinux.org/repos/$repo/$arch"],
-                        },
-                    ],
-                    extra_keyrings: ["https://cdn-mirror.chaotic.cx/chaotic-aur/chaotic-keyring.pkg.tar.zst"],
-                },
-            });
-        }
+            this.repo_manager = repo_manager;
+            this.chaoticLogger.info(
+                `Reloaded repositories: ${Object.keys(repo_manager.repos).join(", ")}, target repositories: ${Object.keys(repo_manager.target_repos).join(", ")}`,
+            );
 
-        if (this.package_repos_notifiers) {
-            try {
-                const obj = JSON.parse(this.package_repos_notifiers);
-                repo_manager.notifiersFromObject(obj);
-            } catch (error) {
-                this.chaoticLogger.error(error);
-            }
-        }
+            return {
+                repos: Object.keys(repo_manager.repos),
+                target_repos: Object.keys(repo_manager.target_repos),
+            };
+        });
+    }
+
+    /**
+     * Initializes the repository manager with the given configuration.
+     * @param repo_manager The repository manager instance.
+     * @param settings The validated settings containing the repositories and their notifiers.
+     * @private
+     */
+    private initRepoManager(repo_manager: RepoManager, settings: RemoteSettings): void {
+        repo_manager.repoFromObject(settings.repos);
+        repo_manager.targetRepoFromObject(settings.target_repos);
+        repo_manager.notifiersFromObject(settings.notifiers);
     }
 
     /**
@@ -673,7 +1457,7 @@ export class CoordinatorService extends Service {
         const mapped_deps = new Map<string, string[]>(); // pkgbase -> [dependencies]
 
         for (const job of Object.values(queue)) {
-            const job_ident = `${job.target_repo}/${job.pkgbase}`;
+            const job_ident = toGraphIdent(job);
             graph.addNode(job_ident, job);
 
             if (!job.pkgnames || !job.dependencies) continue;
@@ -699,16 +1483,20 @@ export class CoordinatorService extends Service {
 
     /**
      * Returns a list of possible jobs that can be assigned to a builder node. Also handles circular dependencies.
+     * The list is ordered by priority, highest first. Within the same priority, jobs are ordered by the turn of their
+     * source and target repositories, then by estimated duration and by age. A job inherits the highest priority of the
+     * jobs depending on it, so that urgent jobs do not wait for low-priority dependencies.
      * @param graph The dependency graph of the jobs.
-     * @param builder_class The builder class of the node. Jobs with a build class higher than this value will be ignored.
-     * @param node_name The name of the node.
+     * @param builder_node The builder node, as listed by $node.list. Jobs it does not match by build class, labels or
+     * the resources left over by the jobs it is running will be ignored.
+     * @param longest_first Whether to order jobs of the same priority by descending instead of ascending duration.
      * @returns A list of possible jobs that can be assigned to the builder node.
      * @private
      */
     private getPossibleJobs(
         graph: DepGraph<CoordinatorTrackedJob>,
-        builder_class: number,
-        node_name: string,
+        builder_node: any,
+        longest_first = true,
     ): CoordinatorTrackedJob[] {
         const jobs: CoordinatorTrackedJob[] = [];
         let nodes: string[] = graph.overallOrder();
@@ -716,25 +1504,128 @@ export class CoordinatorService extends Service {
         // 1. Skip jobs that depend on other jobs
         // 2. Handle circular dependencies gently
         let unresolvable: string[] = [];
+        const now: number = Date.now();
+        const running: Map<string, number> = this.countRunningJobs();
+        const resources: BuilderResources = this.getUnclaimedResources(builder_node);
 
         for (const node of nodes) {
             const job: CoordinatorTrackedJob = graph.getNodeData(node);
-            // Skip jobs that are already assigned to a node
-            if (job.node) {
+            // Skip jobs that are already assigned to a node, are retries still waiting for their backoff, are paused or
+            // belong to a target repository already running as many jobs as it may
+            if (
+                job.node ||
+                (job.not_before !== undefined && job.not_before > now) ||
+                this.isPaused(job) ||
+                (running.get(job.target_repo) ?? 0) >=
+                    (this.repo_manager.target_repos[job.target_repo]?.max_concurrent ?? Infinity)
+            ) {
                 unresolvable.push(...graph.dependantsOf(node));
                 continue;
             }
             if (unresolvable.includes(node)) continue;
-            if (typeof job.build_class === "number" && builder_class !== null && job.build_class <= builder_class) {
-                jobs.push(job);
-                unresolvable.push(...graph.dependantsOf(node));
-            } else if (typeof job.build_class === "string" && job.build_class === node_name) {
+            if (matchesNode(job, builder_node, resources)) {
                 jobs.push(job);
                 unresolvable.push(...graph.dependantsOf(node));
             }
         }
 
-        return jobs;
+        const priorities = new Map<CoordinatorTrackedJob, number>();
+        for (const job of jobs) {
+            const dependants: number[] = graph
+                .dependantsOf(toGraphIdent(job))
+                .map((dependant) => graph.getNodeData(dependant).priority);
+            priorities.set(job, Math.max(job.priority, ...dependants));
+        }
+
+        const passes = new Map<CoordinatorTrackedJob, number>();
+        const durations = new Map<CoordinatorTrackedJob, number>();
+        for (const job of jobs) {
+            passes.set(job, this.source_shares.getPass(job.source_repo) + this.target_shares.getPass(job.target_repo));
+            durations.set(job, this.duration_estimator.estimate(job.pkgbase) ?? 0);
+        }
+        const direction: number = longest_first ? -1 : 1;
+
+        // Array.prototype.sort is stable, keeping the dependency order for jobs of the same age
+        return jobs.sort(
+            (a, b) =>
+                priorities.get(b)! - priorities.get(a)! ||
+                passes.get(a)! - passes.get(b)! ||
+                direction * (durations.get(a)! - durations.get(b)!) ||
+                a.timestamp - b.timestamp,
+        );
+    }
+
+    /**
+     * Counts the running jobs of every target repository.
+     * @returns The number of running jobs, keyed by target repository.
+     * @private
+     */
+    private countRunningJobs(): Map<string, number> {
+        const running = new Map<string, number>();
+        for (const jobs of Object.values(this.busy_nodes)) {
+            for (const job of Object.values(jobs)) {
+                running.set(job.target_repo, (running.get(job.target_repo) ?? 0) + 1);
+            }
+        }
+        return running;
+    }
+
+    /**
+     * Checks whether the target repository, source repository or architecture of a job is paused.
+     * @param job The job to check.
+     * @returns True if the job must not be assigned to a builder, false otherwise.
+     * @private
+     */
+    private isPaused(job: CoordinatorJobSavable): boolean {
+        return (
+            this.paused.target_repo.includes(job.target_repo) ||
+            this.paused.source_repo.includes(job.source_repo) ||
+            this.paused.arch.includes(job.arch)
+        );
+    }
+
+    /**
+     * Pauses the assignment of queued jobs of a target repository, source repository or architecture. Running jobs are
+     * not affected, paused jobs stay in the queue until they are resumed.
+     * @param ctx The Moleculer context object.
+     * @returns Everything that is paused now.
+     */
+    async pause(ctx: Context<Coordinator_Action_Pause_Params>): Promise<Coordinator_Action_Pause_Response> {
+        const data: Coordinator_Action_Pause_Params = ctx.params;
+        // Throw for unknown repositories, as a typo would otherwise silently pause nothing
+        if (data.target_repo !== undefined) this.repo_manager.getTargetRepo(data.target_repo);
+        if (data.source_repo !== undefined) this.repo_manager.getRepo(data.source_repo);
+
+        for (const scope of ["arch", "source_repo", "target_repo"] as const) {
+            const name: string | undefined = data[scope];
+            if (name !== undefined && !this.paused[scope].includes(name)) {
+                this.paused[scope].push(name);
+                this.chaoticLogger.info(`Paused the assignment of jobs with ${scope} ${name}.`);
+            }
+        }
+
+        await this.saveQueue();
+        return { paused: this.paused };
+    }
+
+    /**
+     * Resumes the assignment of queued jobs of a target repository, source repository or architecture.
+     * @param ctx The Moleculer context object.
+     * @returns Everything that is still paused.
+     */
+    async resume(ctx: Context<Coordinator_Action_Pause_Params>): Promise<Coordinator_Action_Pause_Response> {
+        const data: Coordinator_Action_Pause_Params = ctx.params;
+        for (const scope of ["arch", "source_repo", "target_repo"] as const) {
+            const name: string | undefined = data[scope];
+            if (name !== undefined && this.paused[scope].includes(name)) {
+                this.paused[scope] = this.paused[scope].filter((paused) => paused !== name);
+                this.chaoticLogger.info(`Resumed the assignment of jobs with ${scope} ${name}.`);
+            }
+        }
+
+        await this.saveQueue();
+        void this.assignJobs();
+        return { paused: this.paused };
     }
 
     /**
@@ -753,10 +1644,67 @@ export class CoordinatorService extends Service {
     }
 
     /**
-     * Fetches the list of available builder nodes (not busy).
+     * Fetches the list of available builder nodes (at least one free build slot, not drained).
      * @private
      */
     private async getAvailableNodes(): Promise<any[]> {
+        const nodes: any[] = await this.getBuilderNodes();
+        return nodes.filter((node: any) => this.getFreeSlots(node) > 0);
+    }
+
+    /**
+     * Fetches the list of drained builder nodes, which finish their running jobs but accept no new ones.
+     * @private
+     */
+    private async getDrainedNodes(): Promise<any[]> {
+        const nodes: any[] = await this.getBuilderNodes();
+        return nodes.filter((node: any) => node.metadata.drained);
+    }
+
+    /**
+     * Returns the number of jobs a builder node can take on in addition to the ones it is running, none if it is drained.
+     * @param node The builder node, as listed by $node.list.
+     * @private
+     */
+    private getFreeSlots(node: any): number {
+        if (node.metadata.drained) return 0;
+        return (
+            (node.metadata.slots as number) -
+            Object.keys(this.busy_nodes[node.id] ?? {}).length -
+            (this.stalled_slots[node.id] ?? 0)
+        );
+    }
+
+    /**
+     * Returns the resources of a builder node that are not claimed by the requirements of the jobs it is running, as
+     * all build slots of the node share the resources it advertises.
+     * @param node The builder node, as listed by $node.list.
+     * @private
+     */
+    private getUnclaimedResources(node: any): BuilderResources {
+        const resources: BuilderResources = { ...(node.metadata.resources as BuilderResources) };
+        for (const job of Object.values(this.busy_nodes[node.id] ?? {})) {
+            resources.cpus -= job.requirements.cpus ?? 0;
+            resources.ram -= job.requirements.ram ?? 0;
+            if (resources.disk !== undefined) resources.disk -= job.requirements.disk ?? 0;
+        }
+        return resources;
+    }
+
+    /**
+     * Returns the learned speed factor of a builder node, lower factors belong to faster nodes.
+     * @param node The builder node, as listed by $node.list.
+     * @private
+     */
+    private getSpeedFactor(node: any): number {
+        return this.duration_estimator.getSpeedFactor(getPureNodeName(node.id));
+    }
+
+    /**
+     * Fetches the list of all connected builder nodes compatible with the coordinator, regardless of whether they are busy.
+     * @private
+     */
+    private async getBuilderNodes(): Promise<any[]> {
         const services: Record<string, any>[] = await this.broker.call<Record<string, any>[]>("$node.services");
         let nodes: string[] | undefined;
         for (const entry of services) {
@@ -779,13 +1727,8 @@ export class CoordinatorService extends Service {
         // node.metadata.version === current_version → check if the node is compatible with the coordinator
         // nodes.includes(node.id) → check if the node is in the list of builder nodes
         // node.available → check if the node is available (not offline)
-        // !this.busy_nodes[node.id] → check if the node is not in the list of busy nodes
         return full_node_list.filter(
-            (node: any) =>
-                node.metadata.version === current_version &&
-                nodes.includes(node.id) &&
-                node.available &&
-                !this.busy_nodes[node.id],
+            (node: any) => node.metadata.version === current_version && nodes.includes(node.id) && node.available,
         );
     }
 
@@ -794,13 +1737,16 @@ export class CoordinatorService extends Service {
      * @private
      */
     private async updateMetrics(): Promise<void> {
-        const available_nodes: any[] = await this.getAvailableNodes();
+        const builder_nodes: any[] = await this.getBuilderNodes();
         try {
             await this.broker.broadcast<MetricsGaugeContext>("metrics.activeBuilders", {
-                count: Object.keys(this.busy_nodes).length,
+                count: Object.values(this.busy_nodes).reduce((sum, jobs) => sum + Object.keys(jobs).length, 0),
             });
             await this.broker.broadcast<MetricsGaugeContext>("metrics.idleBuilders", {
-                count: available_nodes.length,
+                count: builder_nodes.reduce((sum, node) => sum + Math.max(this.getFreeSlots(node), 0), 0),
+            });
+            await this.broker.broadcast<MetricsTenantContext>("metrics.tenantQueues", {
+                tenants: this.getTenantStats(),
             });
             await this.broker.broadcast<MetricsGaugeContext>("metrics.currentQueue", {
                 count: Object.keys(this.queue).length,
@@ -827,6 +1773,7 @@ export class CoordinatorService extends Service {
         await this.redis_connection_manager.getClient().set(
             "build-queue",
             JSON.stringify({
+                paused: this.paused,
                 save_queue,
                 version: current_version,
             }),
@@ -843,6 +1790,8 @@ export class CoordinatorService extends Service {
             const queue = await client.get("build-queue");
             if (queue) {
                 const data = JSON.parse(queue);
+                // Pauses do not depend on the format of the jobs, so they survive version changes
+                if (data.paused) this.paused = data.paused;
                 if (data.version === current_version) {
                     for (const savedJob of data.save_queue) {
                         const logger = new BuildsRedisLogger(client, this.broker, "BUILD");
@@ -860,10 +1809,17 @@ export class CoordinatorService extends Service {
             this.chaoticLogger.error("Error restoring build queue:", error);
         }
 
+        try {
+            await this.duration_estimator.load();
+        } catch (error) {
+            this.chaoticLogger.error("Error loading build duration estimates:", error);
+        }
+
         this.broker.waitForServices(["$node"]).then(() => {
             this.active = true;
             void this.assignJobs();
         });
+        this.watchdog = setInterval(() => this.checkStalledJobs(), HEARTBEAT_TIMEOUT / 5);
     }
 
     /**
@@ -872,6 +1828,7 @@ export class CoordinatorService extends Service {
     async stop(): Promise<void> {
         // Make sure no new scheduler jobs are started
         this.active = false;
+        if (this.watchdog) clearInterval(this.watchdog);
 
         let timeout: NodeJS.Timeout | null = null;
         const drained = new Promise((resolve: any) => {
@@ -893,9 +1850,15 @@ export class CoordinatorService extends Service {
                 this.chaoticLogger.info(`Job for ${job.pkgbase} was canceled due to coordinator shutdown.`);
                 // Make sure not to requeue the job
                 job.replacement = undefined;
-                this.broker.call("builder.cancelBuild", undefined, { nodeID: job.node }).catch((err) => {
-                    this.chaoticLogger.error(`Failed to cancel build ${job.toId()}:`, err);
-                });
+                this.broker
+                    .call<void, Builder_Action_CancelBuild_Params>(
+                        "builder.cancelBuild",
+                        { job_id: job.toId() },
+                        { nodeID: job.node },
+                    )
+                    .catch((err) => {
+                        this.chaoticLogger.error(`Failed to cancel build ${job.toId()}:`, err);
+                    });
             } else {
                 job.logger.log(`Job was canceled before execution. Coordinator is shutting down.`);
                 this.chaoticLogger.info(`Job for ${job.pkgbase} was canceled before execution.`);
@@ -911,18 +1874,138 @@ export class CoordinatorService extends Service {
      */
     async getQueue(): Promise<QueueStatus> {
         const queue: QueueStatus = [];
+        const etas: Map<CoordinatorTrackedJob, number> = this.estimateCompletion(await this.getBuilderNodes());
         Object.values(this.queue).forEach((job) => {
             queue.push({
-                status: job.node ? "active" : "queued",
+                status: job.node ? "active" : this.isPaused(job) ? "paused" : "queued",
                 node: job.node,
                 buildClass: job.build_class,
                 jobData: job.toSavable(),
                 liveLogUrl: this.base_logs_url ? getLogUrl(job, this.base_logs_url) : undefined,
+                priority: job.priority,
+                timestamp: job.timestamp,
+                eta: etas.get(job),
+                progress: job.progress,
             });
         });
 
         return queue;
     }
+
+    /**
+     * Returns the number of queued and running jobs of every source and target repository, as well as how long their
+     * oldest queued job has been waiting.
+     * @returns The queue stats of the repositories.
+     */
+    getTenantStats(): TenantQueueStats[] {
+        const now: number = Date.now();
+        const jobs: CoordinatorTrackedJob[] = Object.values(this.queue);
+        const collect = (
+            kind: TenantKind,
+            name: string,
+            share: number,
+            tenant: (job: CoordinatorTrackedJob) => string,
+        ): TenantQueueStats => {
+            const own: CoordinatorTrackedJob[] = jobs.filter((job) => tenant(job) === name);
+            const queued: CoordinatorTrackedJob[] = own.filter((job) => !job.node);
+            const oldest: number = queued.reduce((min, job) => Math.min(min, job.timestamp), now);
+            return {
+                kind,
+                name,
+                share,
+                queued: queued.length,
+                running: own.length - queued.length,
+                longest_wait: Math.floor((now - oldest) / 1000),
+            };
+        };
+
+        return [
+            ...Object.values(this.repo_manager.repos).map((repo) =>
+                collect("source_repo", repo.id, repo.share, (job) => job.source_repo),
+            ),
+            ...Object.values(this.repo_manager.target_repos).map((repo) =>
+                collect("target_repo", repo.name, repo.share, (job) => job.target_repo),
+            ),
+        ];
+    }
+
+    /**
+     * Estimates when the running and queued jobs finish by simulating the assignment of the queue to the build slots
+     * of the connected builder nodes. Jobs are taken in order of priority, each one going to the slot it would finish
+     * first on once its dependencies are built.
+     * @param builder_nodes The connected builder nodes, as listed by $node.list.
+     * @returns The estimated finishing times of the jobs, lacking those no connected node matches.
+     * @private
+     */
+    private estimateCompletion(builder_nodes: any[]): Map<CoordinatorTrackedJob, number> {
+        const etas = new Map<CoordinatorTrackedJob, number>();
+        const now: number = Date.now();
+        // The time each build slot becomes free at
+        const slots: { node: any; free: number }[] = [];
+
+        for (const node of builder_nodes) {
+            const running: CoordinatorTrackedJob[] = Object.values(this.busy_nodes[node.id] ?? {});
+            for (const job of running) {
+                const duration: number | undefined = this.duration_estimator.estimate(
+                    job.pkgbase,
+                    getPureNodeName(node.id),
+                );
+                // Jobs taking longer than estimated are assumed to finish any moment
+                const eta: number = duration !== undefined ? Math.max(job.started! + duration, now) : now;
+                if (duration !== undefined) etas.set(job, eta);
+                slots.push({ node, free: eta });
+            }
+            for (let slot = 0; slot < this.getFreeSlots(node); slot++) {
+                slots.push({ node, free: now });
+            }
+        }
+
+        const graph: DepGraph<CoordinatorTrackedJob> = this.constructDependencyGraph(this.queue);
+        const priorities = new Map<string, number>();
+        for (const ident of graph.overallOrder()) {
+            const dependants: number[] = graph
+                .dependantsOf(ident)
+                .map((dependant) => graph.getNodeData(dependant).priority);
+            priorities.set(ident, Math.max(graph.getNodeData(ident).priority, ...dependants));
+        }
+
+        // Dependencies inherit the priority of their dependants, so they are still simulated first
+        const order: string[] = graph.overallOrder().sort((a, b) => priorities.get(b)! - priorities.get(a)!);
+        for (const ident of order) {
+            const job: CoordinatorTrackedJob = graph.getNodeData(ident);
+            if (job.node) continue;
+            // Paused jobs and their dependants wait for an unknown time
+            if (
+                this.isPaused(job) ||
+                graph.dependenciesOf(ident).some((dep) => this.isPaused(graph.getNodeData(dep)))
+            ) {
+                continue;
+            }
+
+            const ready: number = Math.max(
+                now,
+                job.not_before ?? now,
+                ...graph.dependenciesOf(ident).map((dependency) => etas.get(graph.getNodeData(dependency)) ?? now),
+            );
+            let best: { slot: { node: any; free: number }; eta: number } | undefined;
+            for (const slot of slots) {
+                if (!matchesNode(job, slot.node)) continue;
+                const duration: number | undefined = this.duration_estimator.estimate(
+                    job.pkgbase,
+                    getPureNodeName(slot.node.id),
+                );
+                if (duration === undefined) continue;
+                const eta: number = Math.max(slot.free, ready) + duration;
+                if (!best || eta < best.eta) best = { slot, eta };
+            }
+            if (!best) continue;
+
+            best.slot.free = best.eta;
+            etas.set(job, best.eta);
+        }
+
+        return etas;
+    }
 }
 
 export default CoordinatorService;
@@ -1,34 +1,48 @@
 import fs from "fs";
+import path from "path";
 import { Mutex } from "async-mutex";
+import to from "await-to-js";
 import { type Context, type Logger, Service, type ServiceBroker } from "moleculer";
 import { type ContainerManager, DockerManager, PodmanManager } from "../container-manager";
 import { BuildsRedisLogger } from "../logging";
 import type { RedisConnectionManager } from "../redis-connection-manager";
-import type {
-    Database_Action_AddToDb_Params,
-    Database_Action_AutoRepoRemove_Params,
-    Database_Action_fetchUploadInfo_Response,
-    Database_Action_GenerateDestFillerFiles_Params,
-    DatabaseRemoveStatusReturn,
-    MetricsDatabaseLabels,
+import {
+    type Database_Action_AddToDb_Params,
+    type Database_Action_AutoRepoRemove_Params,
+    type Database_Action_fetchUploadInfo_Response,
+    type Database_Action_GenerateDestFillerFiles_Params,
+    type Database_Action_GetRepoPackages_Params,
+    type Database_RepoPackage,
+    type DatabaseRemoveStatusReturn,
+    type MetricsDatabaseLabels,
+    type RemoteSettings,
 } from "../types";
-import { currentTime } from "../utils";
+import { currentTime, sha256File } from "../utils";
 import { MoleculerConfigCommonService } from "./moleculer.config";
 
 export class DatabaseService extends Service {
-    private landing_zone: string = process.env.LANDING_ZONE_PATH || "";
-    private repo_root: string = process.env.REPO_PATH || "";
+    private landing_zone: string;
+    private landing_zone_mount: string;
+    private repo_root: string;
     private repo_root_mount = "/repo_root";
     private mutex: Mutex = new Mutex();
     private redis_connection_manager: RedisConnectionManager;
-    private gpg: string = process.env.GPG_PATH || "";
+    private gpg: string;
     private container_manager: ContainerManager;
     private chaoticLogger: Logger = this.broker.getLogger("DATABASE");
     private active = true;
 
-    constructor(broker: ServiceBroker, redis_connection_manager: RedisConnectionManager) {
+    constructor(
+        broker: ServiceBroker,
+        redis_connection_manager: RedisConnectionManager,
+        private config: RemoteSettings,
+    ) {
         super(broker);
         this.redis_connection_manager = redis_connection_manager;
+        this.landing_zone = config.database.landing_zone || "";
+        this.landing_zone_mount = config.database.landing_zone_mount;
+        this.repo_root = config.database.repo_path || "";
+        this.gpg = config.database.gpg_path || "";
 
         this.parseServiceSchema({
             name: "database",
@@ -40,22 +54,41 @@ export class DatabaseService extends Service {
                 addToDb: this.addToDb,
                 autoRepoRemove: this.autoRepoRemove,
                 generateDestFillerFiles: this.generateDestFillerFiles,
+                getRepoPackages: this.getRepoPackages,
             },
+            started: this.checkLandingZone,
             ...MoleculerConfigCommonService,
         });
 
-        if (process.env.CONTAINER_ENGINE === "podman") {
+        if (config.container_engine === "podman") {
             this.container_manager = new PodmanManager(this.chaoticLogger);
         } else {
             this.container_manager = new DockerManager(this.chaoticLogger);
         }
     }
 
+    /**
+     * Makes sure the landing zone is accessible to the manager, as every uploaded package would fail the checksum
+     * verification otherwise.
+     * @throws Error if the landing zone is not a readable and writable directory
+     */
+    checkLandingZone(): void {
+        try {
+            if (!fs.statSync(this.landing_zone_mount).isDirectory()) throw new Error("Not a directory");
+            fs.accessSync(this.landing_zone_mount, fs.constants.R_OK | fs.constants.W_OK);
+        } catch (err) {
+            throw new Error(
+                `The landing zone is not accessible at ${this.landing_zone_mount}, mount it there or set LANDING_ZONE_MOUNT: ${err instanceof Error ? err.message : err}`,
+                { cause: err },
+            );
+        }
+    }
+
     fetchUploadInfo(): Database_Action_fetchUploadInfo_Response {
-        const database_host = process.env.DATABASE_HOST || "localhost";
-        const database_port = Number(process.env.DATABASE_PORT || 22);
-        const database_user = process.env.DATABASE_USER || "root";
-        const landing_zone_adv = process.env.LANDING_ZONE_ADVERTISED_PATH || null;
+        const database_host = this.config.database.ssh.host || "localhost";
+        const database_port = this.config.database.ssh.port || 22;
+        const database_user = this.config.database.ssh.user || "root";
+        const landing_zone_adv = this.config.database.landing_zone_advertised || null;
 
         return {
             database: {
@@ -65,7 +98,9 @@ export class DatabaseService extends Service {
                     user: database_user,
                 },
                 landing_zone: landing_zone_adv || this.landing_zone,
+                upload_url: this.config.database.upload_url,
             },
+            transport: this.config.database.transport,
         };
     }
 
@@ -97,6 +132,31 @@ export class DatabaseService extends Service {
                     };
                 }
 
+                // The names end up in paths, so they must not point outside the landing zone
+                const invalid: string | undefined = data.pkgfiles.find(
+                    (file) => file.includes("/") || file.includes(".."),
+                );
+                if (invalid !== undefined) {
+                    logger.error(`Refusing to add packages, the file name ${invalid} is invalid.`);
+                    this.chaoticLogger.warn(`Invalid package file name ${invalid} for ${data.pkgbase}`);
+                    return {
+                        success: false,
+                    };
+                }
+
+                if (!(await this.verifyChecksums(data, logger))) {
+                    metrics_promises.push(
+                        this.broker.broadcast<MetricsDatabaseLabels>("database.failure", {
+                            arch: data.arch,
+                            target_repo: data.target_repo,
+                            pkgname: data.pkgbase,
+                        }),
+                    );
+                    return {
+                        success: false,
+                    };
+                }
+
                 // Make sure the builder image is always up to date
                 await this.container_manager.scheduledPull(data.builder_image);
 
@@ -152,6 +212,36 @@ export class DatabaseService extends Service {
             });
     }
 
+    /**
+     * Verifies the uploaded package files against the checksums computed by the builder. On mismatches, all files of
+     * the job are removed from the landing zone, so that no partial upload is ever published.
+     * @param data The parameters of the add to database job
+     * @param logger The logger of the build job
+     * @returns True if all files are intact, false otherwise
+     * @private
+     */
+    private async verifyChecksums(data: Database_Action_AddToDb_Params, logger: BuildsRedisLogger): Promise<boolean> {
+        let intact = true;
+        for (const file of data.pkgfiles) {
+            const expected: string | undefined = data.checksums[file];
+            const [err, actual] = await to(sha256File(path.join(this.landing_zone_mount, file)));
+            if (expected === undefined || err || actual !== expected) {
+                logger.error(
+                    `Checksum mismatch for ${file}: expected ${expected ?? "none"}, got ${err ? "no readable file" : actual}.`,
+                );
+                intact = false;
+            }
+        }
+        if (intact) return true;
+
+        logger.error("Refusing to add corrupted packages to the database, removing them from the landing zone.");
+        this.chaoticLogger.warn(`Checksum verification failed for ${data.pkgbase}`);
+        for (const file of data.pkgfiles) {
+            fs.rmSync(path.join(this.landing_zone_mount, file), { force: true });
+        }
+        return false;
+    }
+
     // Remove all packages from the database that do not belong to the list of pkgbases
     async autoRepoRemove(ctx: Context): Promise<DatabaseRemoveStatusReturn> {
         const data = ctx.params as Database_Action_AutoRepoRemove_Params;
@@ -195,6 +285,47 @@ export class DatabaseService extends Service {
         });
     }
 
+    // List all packages of a repository database along with their dependencies and provided names
+    async getRepoPackages(ctx: Context): Promise<Database_RepoPackage[]> {
+        const data = ctx.params as Database_Action_GetRepoPackages_Params;
+        let output = "";
+
+        return await this.mutex.runExclusive(async () => {
+            if (!this.active) {
+                throw new Error("Database service is shutting down.");
+            }
+
+            const [err] = await this.container_manager.run(
+                data.builder_image,
+                ["repo-dependencies", data.arch, "/repo_root", data.repo],
+                [`${this.repo_root}:/repo_root`],
+                [],
+                (chunk: string) => {
+                    output += chunk;
+                },
+            );
+
+            if (err) {
+                this.chaoticLogger.error(err);
+                throw new Error(`Failed to read the package database of ${data.repo}.`, { cause: err });
+            }
+
+            const packages: Database_RepoPackage[] = [];
+            // Containers run with a TTY, so lines may end with CRLF
+            for (const line of output.split(/\r?\n/)) {
+                const [pkgbase, pkgname, depends, provides] = line.split("\t");
+                if (!pkgbase || !pkgname) continue;
+                packages.push({
+                    pkgbase,
+                    pkgname,
+                    dependencies: depends ? depends.split(" ") : [],
+                    provides: provides ? provides.split(" ") : [],
+                });
+            }
+            return packages;
+        });
+    }
+
     async generateDestFillerFiles(ctx: Context): Promise<string[]> {
         const data = ctx.params as Database_Action_GenerateDestFillerFiles_Params;
         const directory = `${this.repo_root_mount}/${data.target_repo}/${data.arch}`;
@@ -5,6 +5,7 @@ import type {
     MetricsGaugeContext,
     MetricsHistogramContext,
     MetricsRequest,
+    MetricsTenantContext,
     MetricsTimerLabels,
     ValidMetrics,
 } from "../types";
@@ -83,6 +84,36 @@ export class MetricsService extends Service {
                         this.incCounterSoftwareFailure(ctx);
                     },
                 },
+                "builds.uploadFailure": {
+                    group: "builds",
+                    handler(ctx: Context<MetricsCounterLabels>) {
+                        this.incCounterBuildUploadFailure(ctx);
+                    },
+                },
+                "builds.databaseFailure": {
+                    group: "builds",
+                    handler(ctx: Context<MetricsCounterLabels>) {
+                        this.incCounterBuildDatabaseFailure(ctx);
+                    },
+                },
+                "builds.stalled": {
+                    group: "builds",
+                    handler(ctx: Context<MetricsCounterLabels>) {
+                        this.incCounterBuildStalled(ctx);
+                    },
+                },
+                "builds.retry": {
+                    group: "builds",
+                    handler(ctx: Context<MetricsCounterLabels>) {
+                        this.incCounterBuildRetry(ctx);
+                    },
+                },
+                "builds.addToUploadTimerHistogram": {
+                    group: "builds",
+                    handler(ctx: Context<MetricsHistogramContext>) {
+                        this.addToUploadTimerHistogram(ctx);
+                    },
+                },
                 "metrics.activeBuilders": {
                     group: "metrics",
                     handler(ctx: Context<MetricsGaugeContext>) {
@@ -101,6 +132,12 @@ export class MetricsService extends Service {
                         this.setGaugeCurrentQueue(ctx);
                     },
                 },
+                "metrics.tenantQueues": {
+                    group: "metrics",
+                    handler(ctx: Context<MetricsTenantContext>) {
+                        this.setGaugesTenantQueues(ctx);
+                    },
+                },
                 "database.success": {
                     group: "database",
                     handler(ctx: Context<MetricsDatabaseLabels>) {
@@ -180,6 +217,30 @@ export class MetricsService extends Service {
             unit: "builds",
             rate: true,
         });
+        this.broker.metrics.register({
+            type: "counter",
+            name: "builds.failed.upload",
+            description: "Number of builds that failed to upload to the landing zone",
+            labelNames: ["pkgname", "target_repo", "build_class", "replaced", "status", "arch"],
+            unit: "builds",
+            rate: true,
+        });
+        this.broker.metrics.register({
+            type: "counter",
+            name: "builds.failed.database",
+            description: "Number of builds that failed to be added to the repository database",
+            labelNames: ["pkgname", "target_repo", "build_class", "replaced", "status", "arch"],
+            unit: "builds",
+            rate: true,
+        });
+        this.broker.metrics.register({
+            type: "counter",
+            name: "builds.failed.stalled",
+            description: "Number of builds abandoned because their builder stopped responding or exceeded the deadline",
+            labelNames: ["pkgname", "target_repo", "build_class", "replaced", "status", "arch"],
+            unit: "builds",
+            rate: true,
+        });
         this.broker.metrics.register({
             type: "counter",
             name: "builds.failed.timeout",
@@ -188,6 +249,14 @@ export class MetricsService extends Service {
             unit: "builds",
             rate: true,
         });
+        this.broker.metrics.register({
+            type: "counter",
+            name: "builds.retry",
+            labelNames: ["pkgname", "target_repo", "build_class", "replaced", "status", "arch"],
+            description: "Number of failed build attempts that have been retried",
+            unit: "builds",
+            rate: true,
+        });
         this.broker.metrics.register({
             type: "counter",
             name: "builds.alreadyBuilt",
@@ -227,6 +296,15 @@ export class MetricsService extends Service {
             maxAgeSeconds: 60,
             ageBuckets: 10,
         } as any);
+        this.broker.metrics.register({
+            type: "histogram",
+            name: "builds.time.upload",
+            description: "Time it took to upload the built packages to the landing zone",
+            labelNames: ["arch", "pkgbase", "target_repo"],
+            unit: "seconds",
+            // Exponential buckets from 5 seconds to about 43 minutes, as large packages take far longer than small ones
+            buckets: Array.from({ length: 10 }, (_, i) => 5 * 2 ** i),
+        });
         this.broker.metrics.register({
             type: "gauge",
             name: "builders.active",
@@ -238,7 +316,7 @@ export class MetricsService extends Service {
             type: "gauge",
             name: "builders.idle",
             labelNames: ["pkgname", "target_repo", "build_class"],
-            description: "Number of currently idle builders",
+            description: "Number of currently idle build slots",
             unit: "builders",
         });
         this.broker.metrics.register({
@@ -247,6 +325,20 @@ export class MetricsService extends Service {
             description: "Number of current jobs in the queue",
             unit: "jobs",
         });
+        this.broker.metrics.register({
+            type: "gauge",
+            name: "queue.tenant.depth",
+            labelNames: ["kind", "tenant"],
+            description: "Number of queued jobs per source and target repository",
+            unit: "jobs",
+        });
+        this.broker.metrics.register({
+            type: "gauge",
+            name: "queue.tenant.wait",
+            labelNames: ["kind", "tenant"],
+            description: "Time the oldest queued job of each source and target repository has been waiting",
+            unit: "seconds",
+        });
 
         this.metricsLogger.info("Metrics registered and service started");
     }
@@ -284,6 +376,28 @@ export class MetricsService extends Service {
         this.incCounterBuildTotal(ctx);
     }
 
+    /**
+     * Increments the counter for upload failures.
+     * @param ctx The context object containing the parameters for the counter.
+     */
+    incCounterBuildUploadFailure(ctx: Context): void {
+        const labels = ctx.params as MetricsCounterLabels;
+        this.metricsLogger.debug(`Counter incremented: upload failure for ${labels.pkgname}`);
+        this.broker.metrics.increment("builds.failed.upload", labels, 1);
+        this.incCounterBuildTotal(ctx);
+    }
+
+    /**
+     * Increments the counter for builds that could not be added to the database.
+     * @param ctx The context object containing the parameters for the counter.
+     */
+    incCounterBuildDatabaseFailure(ctx: Context): void {
+        const labels = ctx.params as MetricsCounterLabels;
+        this.metricsLogger.debug(`Counter incremented: database failure for ${labels.pkgname}`);
+        this.broker.metrics.increment("builds.failed.database", labels, 1);
+        this.incCounterBuildTotal(ctx);
+    }
+
     /**
      * Increments the counter for build timeouts.
      * @param ctx The context object containing the parameters for the counter.
@@ -295,6 +409,28 @@ export class MetricsService extends Service {
         this.incCounterBuildTotal(ctx);
     }
 
+    /**
+     * Increments the counter for builds abandoned by the watchdog of the coordinator.
+     * @param ctx The context object containing the parameters for the counter.
+     */
+    incCounterBuildStalled(ctx: Context): void {
+        const labels = ctx.params as MetricsCounterLabels;
+        this.metricsLogger.debug(`Counter incremented: build stalled for ${labels.pkgname}`);
+        this.broker.metrics.increment("builds.failed.stalled", labels, 1);
+        this.incCounterBuildTotal(ctx);
+    }
+
+    /**
+     * Increments the counter for retried builds. Retries are not counted as builds of their own, only their final
+     * attempt is.
+     * @param ctx The context object containing the parameters for the counter.
+     */
+    incCounterBuildRetry(ctx: Context): void {
+        const labels = ctx.params as MetricsCounterLabels;
+        this.metricsLogger.debug(`Counter incremented: build retry for ${labels.pkgname}`);
+        this.broker.metrics.increment("builds.retry", labels, 1);
+    }
+
     /**
      * Increments the counter for total builds.
      * @param ctx The context object containing the parameters for the counter.
@@ -379,6 +515,20 @@ export class MetricsService extends Service {
         this.broker.metrics.set("queue.current", data.count, data.labels);
     }
 
+    /**
+     * Sets the gauges for the queue depth and wait time of the source and target repositories.
+     * @param ctx The context object containing the queue stats of every repository.
+     */
+    setGaugesTenantQueues(ctx: Context): void {
+        const data = ctx.params as MetricsTenantContext;
+        this.metricsLogger.debug(`Gauges set: queues of ${data.tenants.length} tenants`);
+        for (const tenant of data.tenants) {
+            const labels = { kind: tenant.kind, tenant: tenant.name };
+            this.broker.metrics.set("queue.tenant.depth", tenant.queued, labels);
+            this.broker.metrics.set("queue.tenant.wait", tenant.longest_wait, labels);
+        }
+    }
+
     /**
      * Gets the metrics requested by the client.
      * @param ctx The context object containing the parameters for the metrics.
@@ -421,6 +571,16 @@ export class MetricsService extends Service {
         this.broker.metrics.observe("builds.time.elapsed", data.duration, data.labels);
     }
 
+    /**
+     * Directly add a new upload duration to the upload time histogram.
+     * @param ctx The context object containing the parameters for the histogram.
+     */
+    addToUploadTimerHistogram(ctx: Context): void {
+        const data = ctx.params as MetricsHistogramContext;
+        this.metricsLogger.debug(`Upload histogram timer added for ${data.labels.pkgbase}`);
+        this.broker.metrics.observe("builds.time.upload", data.duration, data.labels);
+    }
+
     /**
      * Increments the counter for total database processes.
      * @param ctx The context object containing the parameters for the counter.
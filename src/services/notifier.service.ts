@@ -1,7 +1,7 @@
 import { to } from "await-to-js";
 import { Context, type Logger, Service, type ServiceBroker } from "moleculer";
 import ChaoticTelegramBot from "../telegram-bot";
-import type { DeploymentNotificationParams, GenericNotificationParams } from "../types";
+import type { DeploymentNotificationParams, GenericNotificationParams, RemoteSettings } from "../types";
 import { MoleculerConfigCommonService } from "./moleculer.config";
 import { getPureNodeName } from "../utils";
 
@@ -12,24 +12,24 @@ import { getPureNodeName } from "../utils";
 export class NotifierService extends Service {
     private readonly telegramBot: ChaoticTelegramBot | undefined;
     private readonly base_logs_url: string | undefined;
-    private readonly package_repos: string | undefined;
+    private readonly package_repos: RemoteSettings["repos"];
     private chaoticLogger: Logger = this.broker.getLogger("CHAOTIC");
 
-    constructor(broker: ServiceBroker) {
+    constructor(broker: ServiceBroker, settings: RemoteSettings) {
         super(broker);
 
-        if (process.env.TELEGRAM_BOT_TOKEN !== undefined && process.env.TELEGRAM_CHAT_ID !== undefined) {
+        if (settings.telegram.bot_token !== undefined && settings.telegram.chat_id !== undefined) {
             this.telegramBot = new ChaoticTelegramBot(
                 {
-                    telegramChatId: process.env.TELEGRAM_CHAT_ID,
-                    telegramToken: process.env.TELEGRAM_BOT_TOKEN,
+                    telegramChatId: settings.telegram.chat_id,
+                    telegramToken: settings.telegram.bot_token,
                 },
                 this.chaoticLogger,
             );
         }
 
-        this.base_logs_url = process.env.LOGS_URL ? process.env.LOGS_URL : undefined;
-        this.package_repos = process.env.PACKAGE_REPOS ? process.env.PACKAGE_REPOS : undefined;
+        this.base_logs_url = settings.logs_url;
+        this.package_repos = settings.repos;
 
         this.parseServiceSchema({
             name: "notifier",
@@ -1,6 +1,9 @@
 import * as http from "node:http";
-import { readFile } from "node:fs/promises";
-import { resolve } from "node:path";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { readFile, rename, rm } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { pipeline } from "node:stream/promises";
 import Timeout from "await-timeout";
 import to from "await-to-js";
 import cors from "cors";
@@ -9,12 +12,16 @@ import type RedisConnection from "ioredis";
 import { type Logger, Service, type ServiceBroker } from "moleculer";
 import type { RedisConnectionManager } from "../redis-connection-manager";
 import {
+    BuildStatus,
+    type Coordinator_Action_GetHistory_Params,
+    type Coordinator_Action_GetHistory_Response,
     corsOptions,
     HTTP_CACHE_MAX_AGE,
     type MetricsRequest,
     type MetricsReturnObject,
     type PackagesReturnObject,
     type StatsReturnObject,
+    type TenantQueueStats,
     type ValidMetrics,
 } from "../types";
 import { getDurationInMilliseconds, getPureNodeName, isNumeric, isValidPkgbase } from "../utils";
@@ -32,6 +39,8 @@ export class WebService extends Service {
         broker: ServiceBroker,
         private port: number,
         manager: RedisConnectionManager,
+        // Accepts packages uploaded by builders using the HTTP transport if set, only on the database node
+        private uploads?: { dir: string; token: string },
     ) {
         super(broker);
 
@@ -70,6 +79,9 @@ export class WebService extends Service {
         this.app.get("/api/queue/metrics", cors(corsOptions), this.getCountMetrics.bind(this));
         this.app.get("/api/queue/packages", cors(corsOptions), this.getPackageStats.bind(this));
         this.app.get("/api/queue/stats", cors(corsOptions), this.getQueueStats.bind(this));
+        this.app.get("/api/history", cors(corsOptions), this.getHistory.bind(this));
+        this.app.get("/api/history/:pkgbase", cors(corsOptions), this.getHistory.bind(this));
+        if (this.uploads) this.app.put("/api/artifacts/:file", this.putArtifact.bind(this));
 
         // Error handling
         this.app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
@@ -250,8 +262,11 @@ export class WebService extends Service {
             "builds.alreadyBuilt",
             "builds.cancelled",
             "builds.failed.build",
+            "builds.failed.database",
             "builds.failed.software",
+            "builds.failed.stalled",
             "builds.failed.timeout",
+            "builds.failed.upload",
             "builds.skipped",
             "builds.success",
             "builds.time.elapsed",
@@ -276,14 +291,19 @@ export class WebService extends Service {
                 failed:
                     outMetrics["builds.failed.build"]!.value +
                     outMetrics["builds.failed.software"]!.value +
-                    outMetrics["builds.failed.timeout"]!.value,
+                    outMetrics["builds.failed.timeout"]!.value +
+                    // Missing until the first failure of their kind has been recorded
+                    (outMetrics["builds.failed.stalled"]?.value ?? 0) +
+                    (outMetrics["builds.failed.upload"]?.value ?? 0),
             },
             database_queue: {
                 completed: outMetrics["builds.success"]!.value ? outMetrics["builds.success"]!.value : 0,
                 failed:
                     outMetrics["builds.failed.build"]!.value +
                     outMetrics["builds.failed.software"]!.value +
-                    outMetrics["builds.failed.timeout"]!.value,
+                    outMetrics["builds.failed.timeout"]!.value +
+                    (outMetrics["builds.failed.stalled"]?.value ?? 0) +
+                    (outMetrics["builds.failed.database"]?.value ?? 0),
             },
         };
 
@@ -321,8 +341,10 @@ export class WebService extends Service {
     async getQueueStats(req: Request, res: Response) {
         const [errStats, outStats] = await to(this.broker.call<QueueStatus>("coordinator.getQueue"));
         const [errNodes, outNodes] = await to(this.broker.call<any[]>("coordinator.getAvailableNodes"));
+        const [errDrained, outDrained] = await to(this.broker.call<any[]>("coordinator.getDrainedNodes"));
+        const [errTenants, outTenants] = await to(this.broker.call<TenantQueueStats[]>("coordinator.getTenantStats"));
 
-        if (errStats || errNodes || !outStats) {
+        if (errStats || errNodes || errDrained || errTenants || !outStats) {
             this.serverError(res, 500, "Failed to fetch queue stats");
             this.chaoticLogger.error(errStats);
             return;
@@ -331,18 +353,18 @@ export class WebService extends Service {
         const statsReturn: StatsReturnObject = {
             active: { count: 0, packages: [] },
             waiting: { count: 0, packages: [] },
+            paused: { count: 0, packages: [] },
             idle: {
                 count: outNodes ? outNodes.length : 0,
-                nodes: outNodes
-                    ? outNodes.map((node) => {
-                          return {
-                              name: getPureNodeName(node.id),
-                              build_class:
-                                  node.metadata?.build_class !== undefined ? node.metadata?.build_class : "unknown",
-                          };
-                      })
-                    : [],
+                nodes: [...(outNodes ?? []), ...(outDrained ?? [])].map((node) => {
+                    return {
+                        name: getPureNodeName(node.id),
+                        build_class: node.metadata?.build_class !== undefined ? node.metadata?.build_class : "unknown",
+                        drained: node.metadata?.drained === true,
+                    };
+                }),
             },
+            tenants: outTenants ?? [],
         };
         this.chaoticLogger.debug(outStats);
         this.chaoticLogger.debug(statsReturn);
@@ -355,10 +377,25 @@ export class WebService extends Service {
                     node: getPureNodeName(value.node!),
                     build_class: value.buildClass,
                     liveLog: value.liveLogUrl,
+                    priority: value.priority,
+                    eta: value.eta,
+                    progress: value.progress,
+                });
+            } else if (value.status === "paused") {
+                statsReturn.paused.count += 1;
+                statsReturn.paused.packages.push({
+                    name: value.jobData.toId(),
+                    build_class: value.buildClass,
+                    priority: value.priority,
                 });
             } else {
                 statsReturn.waiting.count += 1;
-                statsReturn.waiting.packages?.push({ name: value.jobData.toId(), build_class: value.buildClass });
+                statsReturn.waiting.packages?.push({
+                    name: value.jobData.toId(),
+                    build_class: value.buildClass,
+                    priority: value.priority,
+                    eta: value.eta,
+                });
             }
         });
 
@@ -367,6 +404,86 @@ export class WebService extends Service {
         res.json(statsReturn);
     }
 
+    async getHistory(req: Request, res: Response) {
+        const query = (name: string): string | undefined =>
+            typeof req.query[name] === "string" && req.query[name] !== "" ? req.query[name] : undefined;
+        const pkgbase: string | undefined = typeof req.params.pkgbase === "string" ? req.params.pkgbase : undefined;
+        const status: string | undefined = query("status");
+        const limit: string | undefined = query("limit");
+        const before: string | undefined = query("before");
+
+        // Statuses may be given by their name, e.g. "FAILED", or their numeric value
+        const status_value: number | undefined =
+            status === undefined
+                ? undefined
+                : isNumeric(status)
+                  ? Number(status)
+                  : BuildStatus[status as keyof typeof BuildStatus];
+        if (
+            (pkgbase !== undefined && !isValidPkgbase(pkgbase)) ||
+            (status !== undefined && (status_value === undefined || BuildStatus[status_value] === undefined)) ||
+            (limit !== undefined && (!isNumeric(limit) || Number(limit) < 1 || Number(limit) > 500)) ||
+            (before !== undefined && !/^\d+-\d+$/.test(before))
+        ) {
+            this.serverError(res, 400, "Invalid history request parameters");
+            return;
+        }
+
+        const [err, out] = await to(
+            this.broker.call<Coordinator_Action_GetHistory_Response, Coordinator_Action_GetHistory_Params>(
+                "coordinator.getHistory",
+                {
+                    arch: query("arch"),
+                    before,
+                    limit: limit !== undefined ? Number(limit) : undefined,
+                    node: query("node"),
+                    pkgbase,
+                    status: status_value,
+                    target_repo: query("repo"),
+                },
+            ),
+        );
+        if (err || !out) {
+            this.serverError(res, 500, "Failed to fetch build history");
+            this.chaoticLogger.error(err);
+            return;
+        }
+
+        res.setHeader("Cache-Control", "no-cache");
+        res.json(out);
+    }
+
+    async putArtifact(req: Request, res: Response) {
+        const { dir, token } = this.uploads!;
+        const file = String(req.params.file);
+        const provided: string | undefined = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+
+        // Hashing first makes both sides the same length, as required for a constant-time comparison
+        const digest = (value: string) => createHash("sha256").update(value).digest();
+        if (provided === undefined || !timingSafeEqual(digest(provided), digest(token))) {
+            this.serverError(res, 401, "Invalid upload token");
+            return;
+        }
+        // Hidden files are reserved for partial uploads
+        if (!/^[\w@+-][\w@.+-]*$/.test(file)) {
+            this.serverError(res, 400, "Invalid file name");
+            return;
+        }
+
+        // Write to a hidden file first, so the database never picks up a partially uploaded package
+        const partial: string = join(dir, `.${file}.part`);
+        const [err] = await to(pipeline(req, createWriteStream(partial)));
+        if (err) {
+            await rm(partial, { force: true });
+            this.chaoticLogger.error(`Failed to store uploaded artifact ${file}:`, err);
+            this.serverError(res, 500, "Failed to store artifact");
+            return;
+        }
+        await rename(partial, join(dir, file));
+
+        res.status(201).end();
+    }
+
     async start() {
         this.server = this.app.listen(this.port);
     }
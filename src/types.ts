@@ -5,26 +5,79 @@ export interface PacmanRepo {
     servers: string[];
 }
 
+// How builders move built packages to the landing zone, see src/artifact-transport.ts
+export type ArtifactTransportType = "http" | "local" | "sftp";
+
+// Settings loaded from the config file and environment variables, see src/config.ts for defaults and overrides
 export interface RemoteSettings {
+    builder: {
+        build_dir_host?: string;
+        build_dir_manager: string;
+        ci_code_skip: number;
+        // Nodes can ONLY have number build classes, null restricts them to packages explicitly assigned to them
+        class: number | null;
+        hostname?: string;
+        image: string;
+        // Free-form labels, which jobs can require or avoid via label selectors
+        labels: string[];
+        // Where the landing zone is mounted on the builder, for the local transport
+        landing_zone?: string;
+        limits: {
+            cpus?: number;
+            // In MiB
+            ram?: number;
+        };
+        shared_path?: string;
+        // Number of jobs built at the same time, each in its own container
+        slots: number;
+        srcdest_cache_override?: string;
+        ssh_key: string;
+        timeout: number;
+        // Overrides the transport advertised by the database node
+        transport?: ArtifactTransportType;
+        // Number of files uploaded in parallel by the SFTP transport
+        upload_concurrency: number;
+        upload_token?: string;
+    };
+    container_engine: "docker" | "podman";
     database: {
+        gpg_path?: string;
+        landing_zone?: string;
+        landing_zone_advertised?: string;
+        // Where the landing zone is mounted inside the manager, to verify and receive uploaded packages
+        landing_zone_mount: string;
+        repo_path?: string;
         ssh: {
-            host: string;
-            port: number;
-            user: string;
+            host?: string;
+            port?: number;
+            user?: string;
         };
-        landing_zone: string;
+        // Advertised to builders as the default transport
+        transport: ArtifactTransportType;
+        // Required by the HTTP transport, the token has to be configured on the builders as well
+        upload_token?: string;
+        upload_url?: string;
     };
-    builder: {
-        ci_code_skip?: number;
-        image: string;
-        is_hpc?: boolean;
-        name?: string;
-        timeout?: number;
+    logs_url?: string;
+    // GitLab commit status notifiers, keyed by source repository
+    notifiers: Record<
+        string,
+        {
+            check_name: string;
+            id: string;
+            token: string;
+        }
+    >;
+    redis: {
+        host: string;
+        password: string;
+        port: number;
     };
     repos: Record<
         string,
         {
             url: string;
+            share?: number;
         }
     >;
     target_repos: Record<
@@ -32,9 +85,15 @@ export interface RemoteSettings {
         {
             extra_repos: PacmanRepo[];
             extra_keyrings: string[];
+            retry?: RetryPolicy;
+            share?: number;
+            max_concurrent?: number;
         }
     >;
-    version: number;
+    telegram: {
+        bot_token?: string;
+        chat_id?: string;
+    };
 }
 
 export enum BuildStatus {
@@ -46,8 +105,30 @@ export enum BuildStatus {
     CANCELED = 5,
     CANCELED_REQUEUE = 6,
     SOFTWARE_FAILURE = 7,
+    // The packages were built, but uploading them to the landing zone failed
+    UPLOAD_FAILED = 8,
+    // The packages were uploaded, but adding them to the repository database failed
+    DATABASE_FAILED = 9,
+    // The coordinator gave up on the job, as its builder stopped sending heartbeats or exceeded the deadline
+    STALLED = 10,
+}
+
+// How failed builds of a target repository are retried
+export interface RetryPolicy {
+    // Including the first attempt, so 1 disables retries
+    max_attempts: number;
+    // Delay before the first retry in seconds, doubled for every further retry
+    backoff: number;
+    statuses: BuildStatus[];
 }
 
+// Software failures and failed uploads are usually transient, e.g. caused by network hiccups
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    max_attempts: 3,
+    backoff: 60,
+    statuses: [BuildStatus.SOFTWARE_FAILURE, BuildStatus.UPLOAD_FAILED],
+};
+
 // The object the API should return on /api/packages calls
 export type PackagesReturnObject = Record<
     string,
@@ -63,16 +144,43 @@ export type PackagesReturnObject = Record<
 export interface StatsReturnObject {
     active: {
         count: number;
-        packages: { name: string; node: string; build_class: number | string; liveLog?: string }[];
+        packages: {
+            name: string;
+            node: string;
+            build_class: number | string;
+            liveLog?: string;
+            priority: number;
+            eta?: number;
+            progress?: BuildProgress;
+        }[];
     };
     waiting: {
         count: number;
-        packages: { name: string; build_class: BuildClass }[];
+        packages: { name: string; build_class: BuildClass; priority: number; eta?: number }[];
+    };
+    paused: {
+        count: number;
+        packages: { name: string; build_class: BuildClass; priority: number }[];
     };
     idle: {
         count: number;
-        nodes: { name: string; build_class: number }[];
+        // Drained nodes are listed as well, but not counted
+        nodes: { name: string; build_class: number; drained: boolean }[];
     };
+    tenants: TenantQueueStats[];
+}
+
+// The source and target repositories share the builders as tenants of the queue
+export type TenantKind = "source_repo" | "target_repo";
+
+export interface TenantQueueStats {
+    kind: TenantKind;
+    name: string;
+    share: number;
+    queued: number;
+    running: number;
+    // How long the oldest queued job has been waiting in seconds, 0 if nothing is queued
+    longest_wait: number;
 }
 
 export interface MetricsReturnObject {
@@ -87,14 +195,28 @@ export interface MetricsReturnObject {
 }
 
 // This value is used to isolate builder nodes that are on a different version of the internal API than the coordinator.
-export const current_version = 3;
+export const current_version = 8;
 
 const ONE_UNIX_DAY = 1000 * 60 * 60 * 24;
 const ONE_UNIX_MONTH = 1000 * 60 * 60 * 24 * 30;
 
 export const MAX_SHUTDOWN_TIME = 1000 * 30;
 
+// Builders send heartbeats for their running jobs at this interval, jobs missing them for too long are considered stalled
+export const HEARTBEAT_INTERVAL = 1000 * 60;
+export const HEARTBEAT_TIMEOUT = HEARTBEAT_INTERVAL * 5;
+
+// Time on top of the builder timeout for pulling the builder image, uploading the packages and adding them to the
+// repository, after which the coordinator considers a job stalled
+export const JOB_DEADLINE_SLACK = 1000 * 60 * 90;
+
+// Where the manager container expects the landing zone to be mounted by default
+export const LANDING_ZONE_MOUNT = "/landing_zone";
+
 export const SOURCECACHE_MAX_LIFETIME = ONE_UNIX_MONTH;
+
+// Built packages are kept for this long after a failed upload, waiting for the job to be retried
+export const STAGING_MAX_LIFETIME = ONE_UNIX_DAY * 3;
 export const HTTP_CACHE_MAX_AGE = ONE_UNIX_DAY;
 
 export const ALLOWED_CORS_ORIGINS = [
@@ -116,12 +238,16 @@ export interface Database_Action_fetchUploadInfo_Response {
             user: string;
         };
         landing_zone: string;
+        upload_url?: string;
     };
+    transport: ArtifactTransportType;
 }
 
 export interface Database_Action_AddToDb_Params {
     arch: string;
     builder_image: string;
+    // Hex-encoded SHA-256 checksums of the package files, keyed by file name
+    checksums: Record<string, string>;
     pkgbase: string;
     pkgfiles: string[];
     source_repo: string;
@@ -136,6 +262,20 @@ export interface Database_Action_AutoRepoRemove_Params {
     repo: string;
 }
 
+export interface Database_Action_GetRepoPackages_Params {
+    arch: string;
+    builder_image: string;
+    repo: string;
+}
+
+export interface Database_RepoPackage {
+    pkgbase: string;
+    pkgname: string;
+    // Runtime dependencies without version constraints
+    dependencies: string[];
+    provides: string[];
+}
+
 export interface Database_Action_GenerateDestFillerFiles_Params {
     target_repo: string;
     arch: string;
@@ -147,6 +287,8 @@ export interface Builder_Action_BuildPackage_Params {
     commit?: string;
     extra_keyrings: string;
     extra_repos: string;
+    // Identifies the job when canceling it
+    job_id: string;
     pkgbase: string;
     source_repo: string;
     source_repo_url: string;
@@ -154,6 +296,48 @@ export interface Builder_Action_BuildPackage_Params {
     timestamp: number;
     upload_info: Database_Action_fetchUploadInfo_Response;
     arch_mirror?: string;
+    // Deploy the packages staged by a previous attempt of the job instead of building them again, if they still exist
+    resume_upload?: boolean;
+}
+
+export interface Builder_Action_CancelBuild_Params {
+    job_id: string;
+}
+
+export interface BuilderHeartbeat {
+    job_id: string;
+    // Seconds the build may take, once the container determined it including the extra timeout of the package
+    timeout?: number;
+    usage?: ContainerUsage;
+}
+
+// Steps of a build, in the order a builder goes through them
+export type BuildPhase = "filling" | "pulling" | "building" | "namcap" | "uploading" | "adding";
+
+// Resource usage of a build container, the CPU usage in percent of a single core and the memory usage in MiB
+export interface ContainerUsage {
+    cpu: number;
+    memory: number;
+}
+
+export interface BuildProgress {
+    phase: BuildPhase;
+    // Time the builder entered the phase, or made progress in it
+    timestamp: number;
+    // Number of files uploaded so far, out of the total, while uploading
+    done?: number;
+    total?: number;
+    // Missing if no build container is running
+    usage?: ContainerUsage;
+}
+
+export interface BuilderPhaseEvent extends BuildProgress {
+    job_id: string;
+}
+
+export interface Builder_Action_Drain_Response {
+    // IDs of the jobs the node is still running
+    running: string[];
 }
 
 export interface BuildStatusReturn {
@@ -172,6 +356,10 @@ export interface Coordinator_Action_PackageMetaData_Single {
     dependencies?: string[];
     pkgbase: string;
     pkgnames?: string[];
+    // Jobs with a higher priority are assigned first, defaults to 0
+    priority?: number;
+    requirements?: ResourceRequirements;
+    label_selector?: LabelSelector;
 }
 
 export type Coordinator_Action_PackageMetaData_List = Coordinator_Action_PackageMetaData_Single[];
@@ -185,10 +373,131 @@ export interface Coordinator_Action_AddJobsToQueue_Params {
     arch_mirror: string | undefined;
 }
 
+export interface Coordinator_Action_DryRunJobs_Response {
+    // Jobs that would be assigned to a builder node at the same time, each wave depending on the previous one
+    waves: { job: string; node: string }[][];
+    // Dependency cycles, which are resolved by building their members in arbitrary order
+    cycles: string[][];
+    // Jobs whose string build class or resource requirements match no connected builder node
+    unmatched: string[];
+    // Currently running jobs that would be canceled and replaced
+    replacements: string[];
+    // Jobs that could not be placed in any wave, e.g. because their build class is too high for all builders
+    blocked: string[];
+}
+
 export type Coordinator_Action_AutoRepoRemove_Params = Omit<Database_Action_AutoRepoRemove_Params, "builder_image">;
 
+export interface Coordinator_Action_RebuildDependents_Params {
+    arch: string;
+    arch_mirror: string | undefined;
+    commit: string | undefined;
+    // The package whose dependents should be rebuilt, either a pkgname or a name it provides
+    pkgname: string;
+    priority?: number;
+    source_repo: string;
+    target_repo: string;
+}
+
+export interface Coordinator_Action_RebuildDependents_Response {
+    // The pkgbase providing the requested package
+    pkgbase: string;
+    // IDs of the jobs that were added to the queue
+    queued: string[];
+}
+
+export interface Coordinator_Action_ReloadRepos_Response {
+    repos: string[];
+    target_repos: string[];
+}
+
+export interface BuildHistoryEntry {
+    // Redis stream ID, doubling as the pagination cursor
+    id: string;
+    arch: string;
+    build_class: BuildClass;
+    commit?: string;
+    // Build duration in milliseconds
+    duration?: number;
+    // When the job finished, in milliseconds since the epoch
+    finished: number;
+    namcapAnalysis?: string;
+    node: string;
+    packages?: string[];
+    pkgbase: string;
+    source_repo: string;
+    status: BuildStatus;
+    target_repo: string;
+    // When the job was scheduled, identifying its build log
+    timestamp: number;
+}
+
+export interface Coordinator_Action_GetHistory_Params {
+    arch?: string;
+    // Only return entries older than this cursor, as returned by a previous call
+    before?: string;
+    limit?: number;
+    node?: string;
+    pkgbase?: string;
+    status?: BuildStatus;
+    target_repo?: string;
+}
+
+export interface Coordinator_Action_GetHistory_Response {
+    entries: BuildHistoryEntry[];
+    // Cursor for the next page, if there may be more entries
+    next?: string;
+}
+
+export interface Coordinator_Action_CancelJob_Params {
+    // Job IDs in the target_repo/arch/pkgbase format, or glob patterns matching them
+    jobs: string[];
+    reason?: string;
+}
+
+export interface Coordinator_Action_CancelJob_Response {
+    canceled: string[];
+}
+
+// Queued jobs matching any of these are not assigned to builders until they are resumed
+export interface PausedScopes {
+    arch: string[];
+    source_repo: string[];
+    target_repo: string[];
+}
+
+export interface Coordinator_Action_Pause_Params {
+    arch?: string;
+    source_repo?: string;
+    target_repo?: string;
+}
+
+export interface Coordinator_Action_Pause_Response {
+    paused: PausedScopes;
+}
+
 export type BuildClass = string | number;
 
+// Resources a job needs on a builder node in addition to its build class, RAM and disk space in MiB
+export interface ResourceRequirements {
+    cpus?: number;
+    disk?: number;
+    ram?: number;
+}
+
+// Labels a builder node needs to have, or must not have, to build a job
+export interface LabelSelector {
+    exclude?: string[];
+    include?: string[];
+}
+
+// Resources advertised by a builder node in its metadata, the disk space is the free space of the shared path
+export interface BuilderResources {
+    cpus: number;
+    disk?: number;
+    ram: number;
+}
+
 export class CoordinatorJobSavable {
     constructor(
         public pkgbase: string,
@@ -200,6 +509,9 @@ export class CoordinatorJobSavable {
         public dependencies: string[] | undefined,
         public commit: string | undefined,
         public arch_mirror: string | undefined,
+        public priority = 0,
+        public requirements: ResourceRequirements = {},
+        public label_selector: LabelSelector = {},
     ) {}
 
     toId(): string {
@@ -219,8 +531,24 @@ export class CoordinatorJob extends CoordinatorJobSavable {
         commit: string | undefined,
         public timestamp: number,
         arch_mirror: string | undefined,
+        priority = 0,
+        requirements: ResourceRequirements = {},
+        label_selector: LabelSelector = {},
     ) {
-        super(pkgbase, target_repo, source_repo, arch, build_class, pkgnames, dependencies, commit, arch_mirror);
+        super(
+            pkgbase,
+            target_repo,
+            source_repo,
+            arch,
+            build_class,
+            pkgnames,
+            dependencies,
+            commit,
+            arch_mirror,
+            priority,
+            requirements,
+            label_selector,
+        );
     }
 }
 
@@ -283,6 +611,10 @@ export interface MetricsGaugeContext {
     labels?: MetricsGaugeLabels;
 }
 
+export interface MetricsTenantContext {
+    tenants: TenantQueueStats[];
+}
+
 export type MetricsRequest = {
     [p in ValidMetrics]?: MetricsEntry;
 };
@@ -299,13 +631,20 @@ export type ValidMetrics =
     | "builds.alreadyBuilt"
     | "builds.cancelled"
     | "builds.failed.build"
+    | "builds.failed.database"
     | "builds.failed.software"
+    | "builds.failed.stalled"
     | "builds.failed.timeout"
+    | "builds.failed.upload"
+    | "builds.retry"
     | "builds.skipped"
     | "builds.success"
     | "builds.time.elapsed"
+    | "builds.time.upload"
     | "builds.total"
-    | "queue.current";
+    | "queue.current"
+    | "queue.tenant.depth"
+    | "queue.tenant.wait";
 
 export interface MetricsDatabaseLabels {
     arch: string;
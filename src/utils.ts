@@ -1,4 +1,6 @@
-import type { CoordinatorJob } from "./types";
+import { createHash } from "crypto";
+import fs from "fs";
+import type { BuildPhase, BuildProgress, CoordinatorJob, LabelSelector } from "./types";
 import { URL } from "url";
 
 /**
@@ -37,16 +39,90 @@ export function getDurationInMilliseconds(start: [number, number]): number {
     return (diff[0] * NS_PER_SEC + diff[1]) / NS_TO_MS;
 }
 
+/**
+ * Formats a duration in milliseconds as a short, human-readable string, e.g. "2h 5m" or "42s".
+ * @param ms The duration in milliseconds.
+ * @returns The formatted duration.
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+    return `${seconds}s`;
+}
+
+const PHASE_DESCRIPTIONS: Record<BuildPhase, string> = {
+    filling: "Generating filler files",
+    pulling: "Pulling the builder image",
+    building: "Building",
+    namcap: "Running namcap",
+    uploading: "Uploading",
+    adding: "Adding to the database",
+};
+
+/**
+ * Describes the phase of a running build, e.g. "Uploading (3/5 files)".
+ * @param progress The progress reported by the builder.
+ * @returns The description of the phase.
+ */
+export function describePhase(progress: BuildProgress): string {
+    const description: string = PHASE_DESCRIPTIONS[progress.phase];
+    if (progress.total === undefined) return description;
+    return `${description} (${progress.done ?? 0}/${progress.total} files)`;
+}
+
+/**
+ * Formats a size in bytes as a short, human-readable string, e.g. "12.5 MiB".
+ * @param bytes The size in bytes.
+ * @returns The formatted size.
+ */
+export function formatBytes(bytes: number): string {
+    const units = ["B", "KiB", "MiB", "GiB", "TiB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Formats rows of cells as a plain text table with left-aligned, space-padded columns.
+ * @param header The column titles.
+ * @param rows The table rows, each containing one cell per column.
+ * @returns The formatted table, one line per row.
+ */
+export function formatTable(header: string[], rows: string[][]): string {
+    const widths: number[] = header.map((title, index) =>
+        Math.max(title.length, ...rows.map((row) => (row[index] ?? "").length)),
+    );
+    return [header, ...rows]
+        .map((row) =>
+            row
+                .map((cell, index) => (cell ?? "").padEnd(widths[index]))
+                .join("  ")
+                .trimEnd(),
+        )
+        .join("\n");
+}
+
 /**
  * Generate a Moleculer nodeId for all nodes depending on the main command provided.
  * @param command The command derived from the main options.
+ * @param hostname The configured builder hostname, which takes precedence over the command.
  * @returns The final nodeId to use.
  */
-export function generateNodeId(command: string) {
+export function generateNodeId(command: string, hostname?: string) {
     // This prevents broker shutdowns due to double ids in case we have overlapping nodeIds.
     const randomString = Math.random().toString(36).substring(2, 7);
 
-    if (process.env.BUILDER_HOSTNAME) return process.env.BUILDER_HOSTNAME + "-" + randomString;
+    if (hostname) return hostname + "-" + randomString;
 
     let id = "chaotic-";
     switch (command) {
@@ -62,6 +138,18 @@ export function generateNodeId(command: string) {
         case "auto-repo-remove":
             id += "auto-remover";
             break;
+        case "rebuild-dependents":
+            id += "scheduler";
+            break;
+        case "cancel":
+            id += "canceler";
+            break;
+        case "queue":
+            id += "queue-inspector";
+            break;
+        case "logs":
+            id += "log-viewer";
+            break;
         case "web":
             id += "web-server";
             break;
@@ -101,6 +189,52 @@ export function isValidPkgbase(pkgbase: string): boolean {
     return /^[a-z0-9-_\.+]+$/.test(pkgbase);
 }
 
+/**
+ * Returns a true/false value indicating if a builder label is valid.
+ * @param label The label to check.
+ * @returns True if the label is valid, false otherwise.
+ */
+export function isValidLabel(label: string): boolean {
+    return /^[a-z0-9-_.]+$/.test(label);
+}
+
+/**
+ * Parses a comma-separated list of builder labels, where labels prefixed with "!" are excluded, e.g. "ccache,!hpc".
+ * @param selector The label selector to parse.
+ * @returns The labels to include and exclude.
+ * @throws Error if any of the labels is invalid.
+ */
+export function parseLabelSelector(selector: string): LabelSelector {
+    const include: string[] = [];
+    const exclude: string[] = [];
+    for (const item of selector.split(",")) {
+        const entry: string = item.trim();
+        if (entry === "") continue;
+        const label: string = entry.replace(/^!/, "");
+        if (!isValidLabel(label)) throw new Error(`Invalid label "${label}"`);
+        (entry.startsWith("!") ? exclude : include).push(label);
+    }
+    return { include, exclude };
+}
+
+/**
+ * Returns a regular expression matching the given glob pattern as a whole.
+ * "*" matches any sequence of characters except "/", "?" matches a single character except "/".
+ * @param pattern The glob pattern to convert.
+ * @returns The regular expression equivalent of the pattern.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const escaped = pattern
+        .split("")
+        .map((char) => {
+            if (char === "*") return "[^/]*";
+            if (char === "?") return "[^/]";
+            return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        })
+        .join("");
+    return new RegExp(`^${escaped}$`);
+}
+
 /**
  * Returns a true/false value indicating if a string only contains numbers.
  * @param str The string to check.
@@ -109,3 +243,16 @@ export function isValidPkgbase(pkgbase: string): boolean {
 export function isNumeric(str: string): boolean {
     return /^\d+$/.test(str);
 }
+
+/**
+ * Computes the SHA-256 checksum of a file, streaming it to avoid loading big packages into memory.
+ * @param file The path of the file.
+ * @returns The hex-encoded checksum.
+ */
+export async function sha256File(file: string): Promise<string> {
+    const hash = createHash("sha256");
+    for await (const chunk of fs.createReadStream(file)) {
+        hash.update(chunk);
+    }
+    return hash.digest("hex");
+}
@@ -46,6 +46,7 @@ DATABASE_PORT=2891
 DATABASE_USER=package-deployer
 GPG_PATH='$(pwd)/gpg'
 LANDING_ZONE_PATH='$(pwd)/temp/landing_zone'
+LANDING_ZONE_MOUNT='$(pwd)/temp/landing_zone'
 LOGS_URL=https://localhost:8080/logs/logs.html
 NODE_ENV=development
 REPO_PATH='$(pwd)/temp/repo_root'
@@ -92,6 +93,7 @@ elif [ "$1" == "docker" ]; then
             - ./sshkey:/app/sshkey
             - /var/run/docker.sock:/var/run/docker.sock
             - ./temp/repo_root:/repo_root
+            - ./temp/landing_zone:/landing_zone
         environment:
             - REPO_PATH=${REPO_PATH}
             - LANDING_ZONE_PATH=${LANDING_ZONE_PATH}
@@ -148,6 +150,7 @@ elif [ "$1" == "podman" ]; then
             - ./sshkey:/app/sshkey
             - /run/user/1000/podman/podman.sock:/var/run/docker.sock
             - ./temp/repo_root:/repo_root
+            - ./temp/landing_zone:/landing_zone
         environment:
             - REPO_PATH=${REPO_PATH}
             - LANDING_ZONE_PATH=${LANDING_ZONE_PATH}